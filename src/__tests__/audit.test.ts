@@ -0,0 +1,92 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Config } from "../types.js";
+import { AuditEntry, readAuditLog, recordAudit } from "../audit.js";
+
+/**
+ * An audit entry for a call at the given second
+ */
+function entry(second: number, tool = "read_document"): AuditEntry {
+  return {
+    time: new Date(Date.UTC(2025, 0, 1, 0, 0, second)).toISOString(),
+    caller: "laptop",
+    callerKind: "key",
+    tool,
+    arguments: { documentName: "Notes", markdown: "secret text" },
+    documents: ["Notes"],
+    outcome: "success",
+    resultBytes: 10,
+    durationMs: 5,
+  };
+}
+
+/**
+ * Collect the entries a query returns
+ */
+async function collect(path: string, query = {}): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for await (const found of readAuditLog(path, query)) entries.push(found);
+  return entries;
+}
+
+describe("audit log", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "craft-audit-"));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("redacts written content", async () => {
+    const path = join(dir, "redacted.jsonl");
+    await recordAudit({ documents: [], audit: { enabled: true, path } }, entry(0));
+
+    assert.doesNotMatch(readFileSync(path, "utf-8"), /secret text/);
+  });
+
+  it("rotates full files and keeps only maxFiles of them", async () => {
+    const path = join(dir, "rotated.jsonl");
+    const lineBytes = JSON.stringify(entry(0)).length + 1;
+    const config: Config = {
+      documents: [],
+      audit: { enabled: true, path, maxBytes: lineBytes * 2, maxFiles: 2 },
+    };
+
+    for (let second = 0; second < 7; second++) {
+      await recordAudit(config, entry(second));
+    }
+
+    assert.equal(existsSync(`${path}.1`), true);
+    assert.equal(existsSync(`${path}.2`), true);
+    assert.equal(existsSync(`${path}.3`), false);
+
+    // The two oldest entries went with the file that fell off the end
+    const seconds = (await collect(path)).map((found) => new Date(found.time).getUTCSeconds());
+    assert.deepEqual(seconds, [2, 3, 4, 5, 6]);
+  });
+
+  it("filters entries across rotated files", async () => {
+    const path = join(dir, "rotated.jsonl");
+    const found = await collect(path, {
+      since: new Date(Date.UTC(2025, 0, 1, 0, 0, 3)),
+      until: new Date(Date.UTC(2025, 0, 1, 0, 0, 5)),
+    });
+
+    assert.equal(found.length, 3);
+    assert.deepEqual(await collect(path, { caller: "other" }), []);
+  });
+
+  it("filters callers by name, or by kind and name", async () => {
+    const path = join(dir, "rotated.jsonl");
+
+    assert.equal((await collect(path, { caller: "laptop" })).length, 5);
+    assert.equal((await collect(path, { caller: "key:laptop" })).length, 5);
+    assert.deepEqual(await collect(path, { caller: "oauth:laptop" }), []);
+  });
+});
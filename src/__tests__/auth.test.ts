@@ -0,0 +1,126 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import type { Config } from "../types.js";
+import {
+  ANONYMOUS,
+  Principal,
+  authenticate,
+  extractCredential,
+  getPrincipalId,
+  isToolAllowed,
+  scopeConfig,
+} from "../auth.js";
+import { callTool } from "../registry.js";
+
+const config: Config = {
+  documents: [
+    { name: "Notes", apiEndpoint: "http://127.0.0.1:9/notes" },
+    { name: "Plans", apiEndpoint: "http://127.0.0.1:9/plans" },
+  ],
+  apiKeys: [
+    { name: "default", key: "secret-1" },
+    { name: "bot", key: "secret-2", documents: ["Notes"], tools: ["read_document"] },
+  ],
+};
+
+describe("authenticate", () => {
+  it("accepts a configured key as a bearer token", () => {
+    const auth = authenticate(config, { Authorization: "Bearer secret-2" });
+    assert.deepEqual(auth.principal, {
+      kind: "key",
+      name: "bot",
+      documents: ["Notes"],
+      tools: ["read_document"],
+    });
+  });
+
+  it("accepts the api_key query parameter", () => {
+    assert.equal(authenticate(config, {}, { api_key: "secret-1" }).principal?.name, "default");
+  });
+
+  it("rejects missing and unknown keys", () => {
+    assert.match(authenticate(config, {}).error!, /API key required/);
+    assert.match(authenticate(config, { authorization: "Bearer nope" }).error!, /Invalid API key/);
+  });
+
+  it("lets everyone in as anonymous without keys", () => {
+    const open: Config = { documents: config.documents };
+    assert.equal(authenticate(open, {}).principal, ANONYMOUS);
+  });
+
+  it("prefers the Authorization header over the query", () => {
+    assert.equal(
+      extractCredential({ authorization: "bearer header-key" }, { api_key: "query-key" }),
+      "header-key"
+    );
+  });
+});
+
+describe("restrictions", () => {
+  const bot = authenticate(config, { authorization: "Bearer secret-2" }).principal!;
+
+  it("limit a key to its tools", () => {
+    assert.equal(isToolAllowed(bot, "read_document"), true);
+    assert.equal(isToolAllowed(bot, "append_to_document"), false);
+    assert.equal(isToolAllowed(ANONYMOUS, "append_to_document"), true);
+  });
+
+  it("limit a key to its documents", () => {
+    assert.deepEqual(
+      scopeConfig(config, bot).documents.map((doc) => doc.name),
+      ["Notes"]
+    );
+    assert.equal(scopeConfig(config, ANONYMOUS), config);
+  });
+});
+
+describe("getPrincipalId", () => {
+  it("tells an OAuth user apart from an API key of the same name", () => {
+    const key: Principal = { kind: "key", name: "default" };
+    const user: Principal = { kind: "oauth", name: "default" };
+
+    assert.equal(getPrincipalId(key), "key:default");
+    assert.notEqual(getPrincipalId(key), getPrincipalId(user));
+  });
+});
+
+describe("rate limits", () => {
+  let server: Server;
+  let limited: Config;
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    process.env.RATE_LIMIT_BURST = "1";
+    process.env.RATE_LIMIT_PER_MINUTE = "1";
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ id: "root", markdown: "Notes" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const port = (server.address() as AddressInfo).port;
+    limited = {
+      documents: [{ name: "Notes", apiEndpoint: `http://127.0.0.1:${port}`, cacheTtlSeconds: 0 }],
+    };
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.RATE_LIMIT_BURST;
+    delete process.env.RATE_LIMIT_PER_MINUTE;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("keep separate buckets for an API key and an OAuth user of the same name", async () => {
+    const read = (principal: Principal) =>
+      callTool(limited, "read_document", { documentName: "Notes" }, { principal });
+
+    const key: Principal = { kind: "key", name: "shared" };
+    assert.equal((await read(key)).isError, false);
+    assert.equal((await read(key)).result.error, "rate_limited");
+
+    const user: Principal = { kind: "oauth", name: "shared" };
+    assert.equal((await read(user)).isError, false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LRUCache, createCacheKey, getCacheTtlMs } from "../cache.js";
+
+const ENDPOINT = "http://craft.test/a";
+
+describe("LRUCache", () => {
+  it("returns stored values and counts hits and misses", () => {
+    const cache = new LRUCache(1000);
+    cache.set("a", { value: 1 }, 1000, ENDPOINT);
+
+    assert.deepEqual(cache.get("a"), { value: 1 });
+    assert.equal(cache.get("b"), undefined);
+    assert.equal(cache.stats().hits, 1);
+    assert.equal(cache.stats().misses, 1);
+  });
+
+  it("evicts the least recently used entry when full", () => {
+    const cache = new LRUCache(30);
+    cache.set("a", "aaaaaaaa", 1000, ENDPOINT); // 10 bytes as JSON
+    cache.set("b", "bbbbbbbb", 1000, ENDPOINT);
+    cache.set("c", "cccccccc", 1000, ENDPOINT);
+    cache.get("a");
+    cache.set("d", "dddddddd", 1000, ENDPOINT);
+
+    assert.equal(cache.get("b"), undefined);
+    assert.equal(cache.get("a"), "aaaaaaaa");
+    assert.equal(cache.stats().bytes, 30);
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  it("expires entries after their time to live", async () => {
+    const cache = new LRUCache(1000);
+    cache.set("a", "value", 10, ENDPOINT);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(cache.get("a"), undefined);
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  it("doesn't store values with no time to live or larger than the cache", () => {
+    const cache = new LRUCache(10);
+    cache.set("a", "x", 0, ENDPOINT);
+    cache.set("b", "a value longer than ten bytes", 1000, ENDPOINT);
+
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  it("drops the entries of one endpoint", () => {
+    const cache = new LRUCache(1000);
+    cache.set("a", 1, 1000, ENDPOINT);
+    cache.set("b", 2, 1000, ENDPOINT);
+    cache.set("c", 3, 1000, "http://craft.test/b");
+
+    assert.equal(cache.invalidateEndpoint(ENDPOINT), 2);
+    assert.equal(cache.get("c"), 3);
+  });
+});
+
+describe("createCacheKey", () => {
+  it("ignores parameter order and undefined values", () => {
+    assert.equal(
+      createCacheKey(ENDPOINT, "/blocks", { maxDepth: 2, id: "x y", fetchMetadata: undefined }),
+      createCacheKey(ENDPOINT, "/blocks", { id: "x y", maxDepth: 2 })
+    );
+    assert.equal(
+      createCacheKey(ENDPOINT, "/blocks", { id: "x y" }),
+      `${ENDPOINT}/blocks?id=x%20y`
+    );
+  });
+});
+
+describe("getCacheTtlMs", () => {
+  it("prefers the document's TTL over the default", () => {
+    assert.equal(getCacheTtlMs(5), 5000);
+    assert.equal(getCacheTtlMs(0), 0);
+    assert.equal(getCacheTtlMs(), 60000);
+  });
+});
@@ -0,0 +1,73 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import type { CompleteRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../types.js";
+import type { Principal } from "../auth.js";
+import { complete } from "../completions.js";
+
+/**
+ * A completion request for the blockId of the block resource template
+ */
+function blockIdRequest(value: string): CompleteRequest["params"] {
+  return {
+    ref: { type: "ref/resource", uri: "craft://{documentName}/block/{blockId}{?format}" },
+    argument: { name: "blockId", value },
+    context: { arguments: { documentName: "Notes" } },
+  };
+}
+
+describe("blockId completion", () => {
+  let server: Server;
+  let config: Config;
+  let requests = 0;
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    server = createServer((_req, res) => {
+      requests++;
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "root",
+          type: "page",
+          markdown: "Plans",
+          blocks: [
+            { id: "b1", textStyle: "h1", markdown: "Budget 2026" },
+            { id: "b2", textStyle: "h1", markdown: "Hiring" },
+          ],
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    config = {
+      documents: [
+        {
+          name: "Notes",
+          apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          cacheTtlSeconds: 0,
+        },
+      ],
+    };
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("suggests page and heading IDs from the outline", async () => {
+    const { completion } = await complete(config, blockIdRequest("budget"));
+    assert.equal(completion.values[0], "b1");
+  });
+
+  it("suggests nothing to a key without get_document_outline", async () => {
+    const principal: Principal = { kind: "key", name: "lister", tools: ["list_documents"] };
+    requests = 0;
+
+    const { completion } = await complete(config, blockIdRequest(""), { principal });
+    assert.deepEqual(completion.values, []);
+    assert.equal(requests, 0);
+  });
+});
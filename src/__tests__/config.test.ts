@@ -0,0 +1,117 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseConfig } from "../config.js";
+
+/**
+ * Parse a config given as an object
+ */
+function parse(config: unknown) {
+  return parseConfig({ name: "config.json", text: JSON.stringify(config) });
+}
+
+/**
+ * Get the error lines parsing a config fails with
+ */
+function errorsOf(config: unknown): string[] {
+  try {
+    parse(config);
+  } catch (error) {
+    return (error as Error).message.split("\n").slice(1);
+  }
+  assert.fail("configuration was accepted");
+}
+
+describe("parseConfig", () => {
+  before(() => {
+    process.env.TEST_CRAFT_URL = "https://connect.craft.do/links/abc/api/v1";
+    process.env.TEST_CRAFT_EMPTY = "";
+    delete process.env.TEST_CRAFT_UNSET;
+  });
+
+  after(() => {
+    delete process.env.TEST_CRAFT_URL;
+    delete process.env.TEST_CRAFT_EMPTY;
+  });
+
+  it("replaces environment variables, fallbacks and escapes", () => {
+    const config = parse({
+      documents: [
+        { name: "Notes", apiEndpoint: "${TEST_CRAFT_URL}" },
+        { name: "Costs $${USD}", apiEndpoint: "${TEST_CRAFT_UNSET:-https://craft.test/api}" },
+      ],
+    });
+
+    assert.equal(config.documents[0].apiEndpoint, "https://connect.craft.do/links/abc/api/v1");
+    assert.equal(config.documents[1].name, "Costs ${USD}");
+    assert.equal(config.documents[1].apiEndpoint, "https://craft.test/api");
+  });
+
+  it("reports an unset variable once", () => {
+    assert.deepEqual(
+      errorsOf({ documents: [{ name: "Notes", apiEndpoint: "${TEST_CRAFT_UNSET}" }] }),
+      ["  - documents[0].apiEndpoint: environment variable TEST_CRAFT_UNSET is not set"]
+    );
+  });
+
+  it("reports an empty variable, unless it has a fallback", () => {
+    assert.deepEqual(
+      errorsOf({ documents: [{ name: "Notes", apiEndpoint: "${TEST_CRAFT_EMPTY}" }] }),
+      ["  - documents[0].apiEndpoint: environment variable TEST_CRAFT_EMPTY is empty"]
+    );
+
+    const config = parse({
+      documents: [{ name: "Notes", apiEndpoint: "${TEST_CRAFT_EMPTY:-https://craft.test/api}" }],
+    });
+    assert.equal(config.documents[0].apiEndpoint, "https://craft.test/api");
+  });
+
+  it("reports misspelled fields with the closest known one", () => {
+    const errors = errorsOf({
+      documents: [
+        {
+          name: "Notes",
+          apiEndpoint: "https://craft.test/api",
+          permission: "write",
+          alias: ["notes"],
+          cacheTTLSeconds: 0,
+        },
+      ],
+      audit: { enabled: true, colour: "blue" },
+    });
+
+    assert.deepEqual(errors, [
+      '  - documents[0].permission: unknown field, did you mean "permissions"?',
+      '  - documents[0].alias: unknown field, did you mean "aliases"?',
+      '  - documents[0].cacheTTLSeconds: unknown field, did you mean "cacheTtlSeconds"?',
+      "  - audit.colour: unknown field",
+    ]);
+  });
+
+  it("reports every problem at once", () => {
+    const errors = errorsOf({
+      documents: [
+        { name: "Notes", apiEndpoint: "not a url" },
+        { name: "Plans", apiEndpoint: "https://craft.test/plans", aliases: ["notes"] },
+        { name: "Notes", apiEndpoint: "https://craft.test/notes" },
+      ],
+      oauth: { accessTokenTtlSeconds: 0 },
+    });
+
+    assert.deepEqual(errors.sort(), [
+      '  - documents[1].aliases[0]: alias "notes" is already used by document "Notes"',
+      '  - documents[2].name: duplicate document name "Notes"',
+      "  - documents[0].apiEndpoint: must be a URL",
+      "  - oauth.accessTokenTtlSeconds: must be a positive number",
+    ].sort());
+  });
+
+  it("rejects API keys limited to unknown documents", () => {
+    assert.deepEqual(
+      errorsOf({
+        documents: [{ name: "Notes", apiEndpoint: "https://craft.test/api" }],
+        apiKeys: [{ name: "bot", key: "secret", documents: ["Plans"] }],
+      }),
+      ['  - apiKeys[0].documents[0]: unknown document "Plans"']
+    );
+  });
+});
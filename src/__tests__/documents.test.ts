@@ -0,0 +1,114 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import type { Config, DocumentConfig } from "../types.js";
+import { describeUnresolved, resolveDocumentName } from "../documents.js";
+import { callTool } from "../registry.js";
+
+const documents: DocumentConfig[] = [
+  { name: "Project Documentation", apiEndpoint: "http://127.0.0.1:9/docs", aliases: ["wiki"] },
+  { name: "Meeting Notes", apiEndpoint: "http://127.0.0.1:9/meetings" },
+  { name: "Notes Archive", apiEndpoint: "http://127.0.0.1:9/archive" },
+];
+
+describe("resolveDocumentName", () => {
+  it("prefers exact names and aliases, then names ignoring case and spacing", () => {
+    assert.equal(resolveDocumentName(documents, "Meeting Notes").matchedBy, "name");
+    assert.equal(resolveDocumentName(documents, "wiki").doc?.name, "Project Documentation");
+    assert.equal(resolveDocumentName(documents, "meeting  notes").matchedBy, "normalized");
+  });
+
+  it("accepts a single close match", () => {
+    for (const requested of ["proj doc", "Projet Documentaion", "archive"]) {
+      const resolution = resolveDocumentName(documents, requested);
+      assert.equal(resolution.matchedBy, "fuzzy", requested);
+    }
+  });
+
+  it("only suggests a close match when fuzzy matching is off", () => {
+    const resolution = resolveDocumentName(documents, "proj doc", false);
+
+    assert.equal(resolution.doc, undefined);
+    assert.deepEqual(resolution.suggestions, ["Project Documentation"]);
+    assert.equal(resolveDocumentName(documents, "WIKI", false).matchedBy, "normalized");
+  });
+
+  it("suggests candidates when several documents match", () => {
+    const resolution = resolveDocumentName(documents, "notes");
+
+    assert.equal(resolution.ambiguous, true);
+    assert.equal(
+      describeUnresolved("notes", resolution),
+      'Document "notes" matches more than one document. Did you mean "Notes Archive" or "Meeting Notes"?'
+    );
+  });
+});
+
+describe("document names in tool calls", () => {
+  let server: Server;
+  let config: Config;
+  const requests: string[] = [];
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    server = createServer((req, res) => {
+      requests.push(req.method!);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(req.method === "GET" ? { id: "root", markdown: "Docs" } : { items: [] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    config = {
+      documents: [
+        {
+          name: "Project Documentation",
+          apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          permissions: "write",
+          cacheTtlSeconds: 0,
+        },
+      ],
+    };
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("read a close match and report which document was used", async () => {
+    const { result, isError } = await callTool(config, "read_document", {
+      documentName: "proj doc",
+    });
+
+    assert.equal(isError, false);
+    assert.deepEqual(result.resolvedDocuments, [
+      { requested: "proj doc", documentName: "Project Documentation", matchedBy: "fuzzy" },
+    ]);
+  });
+
+  for (const [tool, args] of [
+    ["append_to_document", { markdown: "- new item" }],
+    ["update_block", { blockId: "b1", markdown: "changed" }],
+    ["delete_block", { blockId: "b1" }],
+  ] as const) {
+    it(`don't ${tool.replace(/_/g, " ")} on a close match`, async () => {
+      requests.length = 0;
+      const { result } = await callTool(config, tool, { documentName: "proj doc", ...args });
+
+      assert.match(result.error, /not found\. Did you mean "Project Documentation"\?/);
+      assert.deepEqual(result.didYouMean, ["Project Documentation"]);
+      assert.deepEqual(requests, []);
+    });
+  }
+
+  it("write when the name differs only in case", async () => {
+    requests.length = 0;
+    const { result } = await callTool(config, "append_to_document", {
+      documentName: "project documentation",
+      markdown: "- new item",
+    });
+
+    assert.equal(result.error, undefined);
+    assert.deepEqual(requests, ["POST"]);
+  });
+});
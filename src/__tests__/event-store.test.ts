@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { InMemoryEventStore } from "../event-store.js";
+
+/**
+ * A notification whose JSON is `size` bytes long
+ */
+function message(size: number): JSONRPCMessage {
+  const base = { jsonrpc: "2.0" as const, method: "test", params: { text: "" } };
+  const padding = size - JSON.stringify(base).length;
+  return { ...base, params: { text: "x".repeat(padding) } };
+}
+
+/**
+ * Collect the events replayed after an event
+ */
+async function replay(store: InMemoryEventStore, lastEventId: string): Promise<string[]> {
+  const sent: string[] = [];
+  await store.replayEventsAfter(lastEventId, {
+    send: async (eventId) => {
+      sent.push(eventId);
+    },
+  });
+  return sent;
+}
+
+describe("InMemoryEventStore", () => {
+  it("replays the events of the same stream after the last one received", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", message(100));
+    await store.storeEvent("b", message(100));
+    const third = await store.storeEvent("a", message(100));
+
+    assert.equal(await store.getStreamIdForEventId(first), "a");
+    assert.deepEqual(await replay(store, first), [third]);
+  });
+
+  it("drops the oldest events beyond the event limit", async () => {
+    const store = new InMemoryEventStore(2, 100000);
+    const first = await store.storeEvent("a", message(100));
+    await store.storeEvent("a", message(100));
+    await store.storeEvent("a", message(100));
+
+    assert.equal(store.stats().events, 2);
+    await assert.rejects(replay(store, first), /no longer available/);
+  });
+
+  it("drops the oldest events beyond the size limit", async () => {
+    const store = new InMemoryEventStore(1000, 1000);
+    const first = await store.storeEvent("a", message(400));
+    const second = await store.storeEvent("a", message(400));
+    await store.storeEvent("a", message(400));
+
+    assert.deepEqual(store.stats(), { events: 2, bytes: 800 });
+    await assert.rejects(replay(store, first), /no longer available/);
+    assert.equal((await replay(store, second)).length, 1);
+  });
+
+  it("doesn't store a message larger than the size limit", async () => {
+    const store = new InMemoryEventStore(1000, 1000);
+    await store.storeEvent("a", message(400));
+    await store.storeEvent("a", message(2000));
+
+    assert.deepEqual(store.stats(), { events: 1, bytes: 400 });
+  });
+
+  it("forgets everything when cleared", async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent("a", message(100));
+    store.clear();
+
+    assert.deepEqual(store.stats(), { events: 0, bytes: 0 });
+    assert.equal(await store.getStreamIdForEventId(first), undefined);
+  });
+});
@@ -0,0 +1,274 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "node:crypto";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Config } from "../types.js";
+import { createExpressApp } from "../server.js";
+import { checkUserDocuments } from "../oauth.js";
+import { hashPassword, verifyPassword } from "../passwords.js";
+
+const REDIRECT_URI = "http://localhost:9/callback";
+
+let dir: string;
+let usersFile: string;
+const servers: Server[] = [];
+
+/**
+ * Start the HTTP app with OAuth enabled
+ *
+ * @returns Base URL of the app
+ */
+async function startApp(oauth: Config["oauth"] = {}): Promise<string> {
+  const config: Config = {
+    documents: [{ name: "Notes", apiEndpoint: "http://127.0.0.1:9/notes" }],
+    apiKeys: [{ name: "default", key: "secret-1" }],
+    oauth: { enabled: true, issuerUrl: "http://localhost:3000", usersFile, ...oauth },
+  };
+  const app = createExpressApp(
+    () => new McpServer({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } }),
+    () => config
+  );
+  const server = await new Promise<Server>((resolve) => {
+    const listening: Server = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Register a public client and open the sign-in form
+ *
+ * @returns Client ID, PKCE verifier and the login ID from the form
+ */
+async function startLogin(baseUrl: string) {
+  const registration = await fetch(`${baseUrl}/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ redirect_uris: [REDIRECT_URI], token_endpoint_auth_method: "none" }),
+  });
+  const { client_id: clientId }: any = await registration.json();
+
+  const verifier = randomBytes(32).toString("base64url");
+  const authorize = new URL(`${baseUrl}/authorize`);
+  authorize.search = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: "code",
+    code_challenge: createHash("sha256").update(verifier).digest("base64url"),
+    code_challenge_method: "S256",
+    state: "xyz",
+  }).toString();
+  const page = await (await fetch(authorize)).text();
+  const loginId = page.match(/name="login" value="([^"]+)"/)![1];
+
+  return { clientId, verifier, loginId };
+}
+
+/**
+ * Submit the sign-in form
+ */
+function submitLogin(baseUrl: string, loginId: string, username: string, password: string) {
+  return fetch(`${baseUrl}/oauth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ login: loginId, username, password }).toString(),
+    redirect: "manual",
+  });
+}
+
+/**
+ * Call the token endpoint
+ */
+function requestToken(baseUrl: string, params: Record<string, string>) {
+  return fetch(`${baseUrl}/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+/**
+ * Sign in and exchange the code for tokens
+ */
+async function signIn(baseUrl: string, username: string, password: string) {
+  const { clientId, verifier, loginId } = await startLogin(baseUrl);
+  const login = await submitLogin(baseUrl, loginId, username, password);
+  const code = new URL(login.headers.get("location")!).searchParams.get("code")!;
+  const response = await requestToken(baseUrl, {
+    grant_type: "authorization_code",
+    client_id: clientId,
+    code,
+    code_verifier: verifier,
+    redirect_uri: REDIRECT_URI,
+  });
+  const tokens: any = await response.json();
+  return { clientId, tokens };
+}
+
+before(async () => {
+  process.env.LOG_LEVEL = "error";
+  dir = mkdtempSync(join(tmpdir(), "craft-oauth-"));
+  usersFile = join(dir, "users.json");
+  writeFileSync(
+    usersFile,
+    JSON.stringify({
+      users: [
+        { username: "alice", passwordHash: await hashPassword("change-me") },
+        { username: "default", passwordHash: await hashPassword("other-secret") },
+        { username: "legacy", password: "plaintext" },
+      ],
+    })
+  );
+});
+
+after(() => {
+  for (const server of servers) server.close();
+  rmSync(dir, { recursive: true, force: true });
+  delete process.env.LOG_LEVEL;
+});
+
+describe("passwords", () => {
+  it("verifies a password against its hash", async () => {
+    const hash = await hashPassword("change-me");
+
+    assert.match(hash, /^scrypt\$16384\$8\$1\$/);
+    assert.equal(await verifyPassword("change-me", hash), true);
+    assert.equal(await verifyPassword("change-you", hash), false);
+  });
+
+  it("rejects malformed hashes", async () => {
+    assert.equal(await verifyPassword("change-me", "change-me"), false);
+    assert.equal(await verifyPassword("change-me", "scrypt$3$8$1$c2FsdA$aGFzaA"), false);
+  });
+});
+
+describe("OAuth users file", () => {
+  it("reports document names that aren't configured", () => {
+    const config: Config = {
+      documents: [{ name: "Notes", apiEndpoint: "http://127.0.0.1:9/notes" }],
+    };
+    const errors = checkUserDocuments(
+      [
+        { username: "alice", passwordHash: "", documents: ["Notes"] },
+        { username: "bob", passwordHash: "", documents: ["Notes", "Nots"] },
+      ],
+      config
+    );
+
+    assert.deepEqual([...errors], [["users[1].documents[1]", 'unknown document "Nots"']]);
+  });
+});
+
+describe("OAuth sign-in", () => {
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await startApp();
+  });
+
+  it("shows the form again for a wrong or plaintext password", async () => {
+    const { loginId } = await startLogin(baseUrl);
+
+    assert.equal((await submitLogin(baseUrl, loginId, "alice", "wrong")).status, 401);
+    assert.equal((await submitLogin(baseUrl, loginId, "legacy", "plaintext")).status, 401);
+  });
+
+  it("issues tokens and rotates the refresh token", async () => {
+    const { clientId, tokens } = await signIn(baseUrl, "alice", "change-me");
+    assert.equal(typeof tokens.access_token, "string");
+
+    const refreshed = await requestToken(baseUrl, {
+      grant_type: "refresh_token",
+      client_id: clientId,
+      refresh_token: tokens.refresh_token,
+    });
+    assert.equal(refreshed.status, 200);
+
+    const reused = await requestToken(baseUrl, {
+      grant_type: "refresh_token",
+      client_id: clientId,
+      refresh_token: tokens.refresh_token,
+    });
+    assert.equal(reused.status, 400);
+  });
+
+  it("keeps an OAuth user out of a session opened with an API key of the same name", async () => {
+    const initialize = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer secret-1",
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" },
+        },
+      }),
+    });
+    const sessionId = initialize.headers.get("mcp-session-id")!;
+    await initialize.text();
+
+    const { tokens } = await signIn(baseUrl, "default", "other-secret");
+    const takeover = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${tokens.access_token}`,
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+    assert.equal(takeover.status, 403);
+  });
+});
+
+describe("OAuth refresh tokens", () => {
+  it("are rejected once expired", async () => {
+    const baseUrl = await startApp({ refreshTokenTtlSeconds: 0.05 });
+    const { clientId, tokens } = await signIn(baseUrl, "alice", "change-me");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const response = await requestToken(baseUrl, {
+      grant_type: "refresh_token",
+      client_id: clientId,
+      refresh_token: tokens.refresh_token,
+    });
+    assert.equal(response.status, 400);
+    const body: any = await response.json();
+    assert.match(body.error_description, /expired/);
+  });
+});
+
+describe("OAuth sign-in limits", () => {
+  before(() => {
+    process.env.OAUTH_LOGIN_BURST = "2";
+  });
+
+  after(() => {
+    delete process.env.OAUTH_LOGIN_BURST;
+  });
+
+  it("answer 429 after too many attempts", async () => {
+    const baseUrl = await startApp();
+    const { loginId } = await startLogin(baseUrl);
+
+    assert.equal((await submitLogin(baseUrl, loginId, "alice", "wrong")).status, 401);
+    assert.equal((await submitLogin(baseUrl, loginId, "alice", "wrong")).status, 401);
+
+    const limited = await submitLogin(baseUrl, loginId, "alice", "change-me");
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get("retry-after"), "60");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Block } from "../types.js";
+import { OutlineNode, buildOutline, countOutlineEntries } from "../outline.js";
+
+/**
+ * Keep the fields of an outline that the tests compare
+ */
+function summarize(nodes: OutlineNode[]): unknown[] {
+  return nodes.map((node) => ({
+    title: node.title,
+    type: node.type,
+    level: node.level,
+    childBlockCount: node.childBlockCount,
+    children: summarize(node.children),
+  }));
+}
+
+/**
+ * Create a heading block
+ */
+function heading(id: string, textStyle: string, blocks?: Block[]): Block {
+  return { id, textStyle, markdown: id, ...(blocks ? { blocks } : {}) };
+}
+
+/**
+ * Create a plain text block
+ */
+function text(id: string): Block {
+  return { id, markdown: `Text ${id}` };
+}
+
+describe("buildOutline", () => {
+  it("nests sibling headings by level and counts the blocks in each section", () => {
+    const outline = buildOutline([
+      heading("A", "h1"),
+      text("1"),
+      heading("B", "h2"),
+      text("2"),
+      heading("C", "h3"),
+      heading("D", "h2"),
+      text("3"),
+      heading("E", "h1"),
+    ]);
+
+    assert.deepEqual(summarize(outline), [
+      {
+        title: "A",
+        type: "heading",
+        level: 1,
+        childBlockCount: 6,
+        children: [
+          {
+            title: "B",
+            type: "heading",
+            level: 2,
+            childBlockCount: 2,
+            children: [
+              { title: "C", type: "heading", level: 3, childBlockCount: 0, children: [] },
+            ],
+          },
+          { title: "D", type: "heading", level: 2, childBlockCount: 1, children: [] },
+        ],
+      },
+      { title: "E", type: "heading", level: 1, childBlockCount: 0, children: [] },
+    ]);
+    assert.equal(countOutlineEntries(outline), 5);
+  });
+
+  it("nests the content of pages under them", () => {
+    const outline = buildOutline([
+      {
+        id: "P",
+        type: "page",
+        markdown: "P",
+        blocks: [
+          heading("X", "h1"),
+          text("1"),
+          { id: "Q", type: "page", markdown: "Q", blocks: [text("2"), text("3")] },
+        ],
+      },
+      text("4"),
+    ]);
+
+    assert.deepEqual(summarize(outline), [
+      {
+        title: "P",
+        type: "page",
+        level: 1,
+        childBlockCount: 5,
+        children: [
+          {
+            title: "X",
+            type: "heading",
+            level: 2,
+            childBlockCount: 4,
+            children: [
+              { title: "Q", type: "page", level: 3, childBlockCount: 2, children: [] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("finds headings inside toggles and keeps them in the enclosing section", () => {
+    const outline = buildOutline([
+      heading("A", "h1"),
+      {
+        id: "toggle",
+        listStyle: "toggle",
+        markdown: "More",
+        blocks: [heading("B", "h2"), text("1")],
+      },
+      text("2"),
+    ]);
+
+    assert.deepEqual(summarize(outline), [
+      {
+        title: "A",
+        type: "heading",
+        level: 1,
+        childBlockCount: 4,
+        children: [
+          { title: "B", type: "heading", level: 2, childBlockCount: 1, children: [] },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Block } from "../types.js";
+import {
+  blockTreePaginator,
+  buildBlockTree,
+  flattenBlockTree,
+  paginateResponse,
+  searchResultsPaginator,
+} from "../pagination.js";
+
+/**
+ * A document whose root page holds a text block of about 100 bytes per ID
+ */
+function makeDocument(ids: string[]): { documentName: string; data: Block } {
+  return {
+    documentName: "Notes",
+    data: {
+      id: "root",
+      type: "page",
+      content: "Notes",
+      blocks: ids.map((id) => ({ id, type: "text", content: "x".repeat(80) })),
+    },
+  };
+}
+
+const ids = Array.from({ length: 30 }, (_, i) => `block-${i}`);
+const args = { documentName: "Notes" };
+
+/**
+ * Read every page of a result, following nextCursor
+ */
+function readAllPages(result: any, maxSize: number): string[] {
+  const seen: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const { data } = paginateResponse("read_document", args, result, blockTreePaginator, maxSize, cursor);
+    seen.push(...flattenBlockTree(data.data).map(({ block }) => block.id));
+    cursor = data.nextCursor;
+  } while (cursor);
+
+  return seen;
+}
+
+describe("flattenBlockTree and buildBlockTree", () => {
+  it("round-trip a block tree", () => {
+    const tree: Block = {
+      id: "a",
+      blocks: [{ id: "b", blocks: [{ id: "c" }] }, { id: "d" }],
+    };
+    assert.deepEqual(buildBlockTree(flattenBlockTree(tree)), [tree]);
+  });
+
+  it("keep the parent of blocks whose parent is on another page", () => {
+    const nodes = flattenBlockTree({ id: "a", blocks: [{ id: "b" }, { id: "c" }] });
+    assert.deepEqual(buildBlockTree(nodes.slice(2)), [{ id: "c", parentId: "a" }]);
+  });
+});
+
+describe("paginateResponse", () => {
+  it("returns results that fit unchanged", () => {
+    const result = makeDocument(ids.slice(0, 2));
+    const { data, metadata } = paginateResponse(
+      "read_document",
+      args,
+      result,
+      blockTreePaginator,
+      100000
+    );
+    assert.deepEqual(data, result);
+    assert.equal(metadata.truncated, false);
+  });
+
+  it("pages through every block exactly once", () => {
+    const result = makeDocument(ids);
+    assert.deepEqual(readAllPages(result, 1500), ["root", ...ids]);
+  });
+
+  it("keeps each page within the size limit", () => {
+    const { metadata } = paginateResponse(
+      "read_document",
+      args,
+      makeDocument(ids),
+      blockTreePaginator,
+      1500
+    );
+    assert.ok(metadata.size <= 1500);
+    assert.equal(metadata.hasMore, true);
+  });
+
+  it("rejects a cursor used with other arguments or another tool", () => {
+    const result = makeDocument(ids);
+    const { data } = paginateResponse("read_document", args, result, blockTreePaginator, 1500);
+
+    assert.throws(
+      () =>
+        paginateResponse(
+          "read_document",
+          { documentName: "Other" },
+          result,
+          blockTreePaginator,
+          1500,
+          data.nextCursor
+        ),
+      /does not belong to this request/
+    );
+    assert.throws(
+      () =>
+        paginateResponse("read_block", args, result, blockTreePaginator, 1500, data.nextCursor),
+      /does not belong to this request/
+    );
+  });
+
+  it("rejects a cursor once blocks changed, even if their number didn't", () => {
+    const { data } = paginateResponse(
+      "read_document",
+      args,
+      makeDocument(ids),
+      blockTreePaginator,
+      1500
+    );
+    const replaced = makeDocument([...ids.slice(1), "block-new"]);
+
+    assert.throws(
+      () =>
+        paginateResponse("read_document", args, replaced, blockTreePaginator, 1500, data.nextCursor),
+      /content changed/
+    );
+  });
+
+  it("rejects malformed cursors", () => {
+    assert.throws(
+      () =>
+        paginateResponse("read_document", args, makeDocument(ids), blockTreePaginator, 1500, "nope"),
+      /Invalid cursor/
+    );
+  });
+
+  it("pages search results by hit", () => {
+    const result = {
+      documentName: "Notes",
+      results: ids.map((id) => ({ block: { id, content: "y".repeat(80) } })),
+    };
+    const first = paginateResponse("search_document", args, result, searchResultsPaginator, 1500);
+    const second = paginateResponse(
+      "search_document",
+      args,
+      result,
+      searchResultsPaginator,
+      1500,
+      first.data.nextCursor
+    );
+
+    const returned = first.data._pagination.returned;
+    assert.equal(second.data._pagination.offset, returned);
+    assert.equal(second.data.results[0].block.id, ids[returned]);
+  });
+});
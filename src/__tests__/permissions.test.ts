@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Config, DocumentPermission } from "../types.js";
+import { filterToolsByPermission, getDocumentPermission, hasPermission } from "../permissions.js";
+import { appendToDocument, deleteBlock, updateBlock } from "../tools.js";
+
+const config: Config = {
+  documents: [
+    { name: "Reference", apiEndpoint: "http://127.0.0.1:9/reference" },
+    { name: "Journal", apiEndpoint: "http://127.0.0.1:9/journal", permissions: "append" },
+    { name: "Scratch", apiEndpoint: "http://127.0.0.1:9/scratch", permissions: "write" },
+  ],
+};
+
+const [reference, journal, scratch] = config.documents;
+
+describe("hasPermission", () => {
+  it("defaults documents to read-only", () => {
+    assert.equal(getDocumentPermission(reference), "read");
+    assert.equal(hasPermission(reference, "read"), true);
+    assert.equal(hasPermission(reference, "append"), false);
+  });
+
+  it("includes the lower levels in each level", () => {
+    assert.equal(hasPermission(journal, "read"), true);
+    assert.equal(hasPermission(journal, "append"), true);
+    assert.equal(hasPermission(journal, "write"), false);
+    assert.equal(hasPermission(scratch, "write"), true);
+  });
+});
+
+describe("filterToolsByPermission", () => {
+  const tools: { name: string; description: string; permission: DocumentPermission }[] = [
+    { name: "read_document", description: "Read.", permission: "read" },
+    { name: "append_to_document", description: "Append.", permission: "append" },
+    { name: "delete_block", description: "Delete.", permission: "write" },
+  ];
+
+  it("lists tools every document allows unchanged", () => {
+    const visible = filterToolsByPermission(config, tools);
+    assert.deepEqual(visible[0], tools[0]);
+  });
+
+  it("names the documents that allow a partially allowed tool", () => {
+    const visible = filterToolsByPermission(config, tools);
+    assert.equal(visible[1].description, "Append. Only allowed on: Journal, Scratch.");
+    assert.equal(visible[2].description, "Delete. Only allowed on: Scratch.");
+  });
+
+  it("hides tools no document allows", () => {
+    const readOnly: Config = { documents: [reference] };
+    assert.deepEqual(
+      filterToolsByPermission(readOnly, tools).map((tool) => tool.name),
+      ["read_document"]
+    );
+  });
+});
+
+describe("write tools", () => {
+  it("refuse to append to a read-only document", async () => {
+    const result: any = await appendToDocument(config, "Reference", "- item");
+    assert.equal(result.error, 'Document "Reference" does not allow append access');
+    assert.equal(result.permissions, "read");
+  });
+
+  it("refuse to update or delete blocks without write access", async () => {
+    const updated: any = await updateBlock(config, "Journal", "block-1", "text");
+    const deleted: any = await deleteBlock(config, "Journal", "block-1");
+    assert.equal(updated.error, 'Document "Journal" does not allow write access');
+    assert.equal(deleted.error, 'Document "Journal" does not allow write access');
+  });
+});
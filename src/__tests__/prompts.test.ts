@@ -0,0 +1,137 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Config } from "../types.js";
+import type { Principal } from "../auth.js";
+import { getPrompt, listPrompts } from "../prompts.js";
+
+const BUILT_IN = ["summarize_meeting", "find_action_items", "answer_from_notes"];
+
+describe("prompts", () => {
+  let server: Server;
+  let dir: string;
+  let config: Config;
+
+  /**
+   * Write prompts.json next to the config file
+   */
+  const writePrompts = (prompts: unknown) =>
+    writeFileSync(join(dir, "prompts.json"), JSON.stringify({ prompts }));
+
+  /**
+   * Get the text of a prompt's instructions
+   */
+  const instructions = async (name: string, args: Record<string, string>) => {
+    const { messages } = await getPrompt(config, name, args);
+    const content = messages[messages.length - 1].content;
+    return content.type === "text" ? content.text : undefined;
+  };
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ id: "root", markdown: "Standup notes" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    // prompts.json is read from the directory of the config file
+    dir = mkdtempSync(join(tmpdir(), "craft-prompts-"));
+    process.env.CRAFT_CONFIG = join(dir, "config.json");
+    config = {
+      documents: [
+        {
+          name: "Notes",
+          apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          cacheTtlSeconds: 0,
+        },
+      ],
+    };
+  });
+
+  beforeEach(() => {
+    rmSync(join(dir, "prompts.json"), { force: true });
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.CRAFT_CONFIG;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("offers the built-in prompts without a prompts file", async () => {
+    assert.deepEqual((await listPrompts()).map((prompt) => prompt.name), BUILT_IN);
+  });
+
+  it("lets prompts.json replace built-in prompts and add new ones", async () => {
+    writePrompts([
+      { name: "summarize_meeting", description: "Our own summary", text: "Summarize." },
+      { name: "standup", text: "Write my standup." },
+    ]);
+
+    const prompts = await listPrompts();
+    assert.deepEqual(prompts.map((prompt) => prompt.name), [
+      "find_action_items",
+      "answer_from_notes",
+      "summarize_meeting",
+      "standup",
+    ]);
+    assert.equal(prompts[2].description, "Our own summary");
+  });
+
+  it("ignores an invalid prompts file", async () => {
+    writePrompts([
+      { name: "standup", text: "Write my standup for {{day}}." },
+      { name: "standup", text: "Write my standup." },
+    ]);
+
+    assert.deepEqual((await listPrompts()).map((prompt) => prompt.name), BUILT_IN);
+  });
+
+  it("fills in arguments, defaults and optional sections", async () => {
+    writePrompts([
+      {
+        name: "standup",
+        arguments: [
+          { name: "day", required: true },
+          { name: "team", default: "Platform" },
+          { name: "focus" },
+        ],
+        text: "Standup for {{team}} on {{day}}.{{#focus}} Focus: {{focus}}.{{/focus}}",
+      },
+    ]);
+
+    assert.equal(await instructions("standup", { day: "Monday" }), "Standup for Platform on Monday.");
+    assert.equal(
+      await instructions("standup", { day: "Monday", team: "Apps", focus: "releases" }),
+      "Standup for Apps on Monday. Focus: releases."
+    );
+    await assert.rejects(getPrompt(config, "standup", { day: " " }), /Missing required argument "day"/);
+  });
+
+  it("embeds a document under its configured name", async () => {
+    const { messages } = await getPrompt(config, "summarize_meeting", { documentName: "notes" });
+    const content = messages[0].content;
+
+    assert.equal(content.type, "resource");
+    assert.equal(content.type === "resource" && content.resource.uri, "craft://Notes");
+    assert.match(JSON.stringify(content), /Standup notes/);
+  });
+
+  it("hides prompts that need tools the caller may not use", async () => {
+    const principal: Principal = { kind: "key", name: "reader", tools: ["read_document"] };
+
+    assert.deepEqual((await listPrompts(principal)).map((prompt) => prompt.name), [
+      "summarize_meeting",
+    ]);
+    await assert.rejects(
+      getPrompt(config, "find_action_items", {}, { principal }),
+      /Unknown prompt: find_action_items/
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Semaphore, TokenBucket, UpstreamBusyError, checkRateLimit } from "../rate-limit.js";
+import { requestWithRetry } from "../resilience.js";
+
+describe("TokenBucket", () => {
+  it("allows a burst, then reports how long until enough tokens refill", () => {
+    const bucket = new TokenBucket({ burst: 2, perMinute: 60 });
+
+    assert.equal(bucket.take(1), 0);
+    assert.equal(bucket.take(1), 0);
+    const waitMs = bucket.take(1);
+    assert.ok(waitMs > 900 && waitMs <= 1000, `waited ${waitMs}ms`);
+    assert.equal(bucket.isFull(), false);
+  });
+
+  it("caps a call's cost at the bucket size", () => {
+    const bucket = new TokenBucket({ burst: 3, perMinute: 60 });
+    assert.equal(bucket.take(10), 0);
+  });
+
+  it("never refills without a per-minute rate", () => {
+    const bucket = new TokenBucket({ burst: 1, perMinute: 0 });
+    bucket.take(1);
+    assert.equal(bucket.take(1), Infinity);
+  });
+});
+
+describe("checkRateLimit", () => {
+  before(() => {
+    process.env.RATE_LIMIT_BURST = "2";
+    process.env.RATE_LIMIT_PER_MINUTE = "1";
+  });
+
+  after(() => {
+    delete process.env.RATE_LIMIT_BURST;
+    delete process.env.RATE_LIMIT_PER_MINUTE;
+  });
+
+  it("rejects a caller over the limit with a retry delay", () => {
+    assert.equal(checkRateLimit("key:checked", 2), undefined);
+    assert.deepEqual(checkRateLimit("key:checked", 1), {
+      message: "Rate limit exceeded; retry in 60s",
+      retryAfterSeconds: 60,
+    });
+    assert.equal(checkRateLimit("key:other", 1), undefined);
+  });
+});
+
+describe("Semaphore", () => {
+  it("hands freed slots to waiters in order", async () => {
+    const semaphore = new Semaphore(1);
+    const order: string[] = [];
+    await semaphore.acquire(1000);
+
+    const first = semaphore.acquire(1000).then(() => order.push("first"));
+    const second = semaphore.acquire(1000).then(() => order.push("second"));
+    semaphore.release();
+    await first;
+    semaphore.release();
+    await second;
+
+    assert.deepEqual(order, ["first", "second"]);
+  });
+
+  it("gives up after the wait limit", async () => {
+    const semaphore = new Semaphore(1);
+    await semaphore.acquire(1000);
+    assert.equal(await semaphore.acquire(10), false);
+  });
+});
+
+describe("upstream concurrency", () => {
+  let server: Server;
+  let endpoint: string;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    process.env.CRAFT_MAX_CONCURRENT_REQUESTS = "1";
+    process.env.CRAFT_CONCURRENCY_WAIT_MS = "1000";
+    server = createServer((_req, res) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.end("{}");
+      }, 50);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.CRAFT_MAX_CONCURRENT_REQUESTS;
+    delete process.env.CRAFT_CONCURRENCY_WAIT_MS;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("caps the requests in flight per endpoint", async () => {
+    await Promise.all(
+      [1, 2, 3].map(() => requestWithRetry(endpoint, { url: `${endpoint}/blocks` }))
+    );
+    assert.equal(maxInFlight, 1);
+  });
+
+  it("fails a request that waits too long for a slot", async () => {
+    process.env.CRAFT_CONCURRENCY_WAIT_MS = "10";
+    const [first, second] = await Promise.allSettled([
+      requestWithRetry(endpoint, { url: `${endpoint}/blocks` }),
+      requestWithRetry(endpoint, { url: `${endpoint}/blocks` }),
+    ]);
+
+    assert.equal(first.status, "fulfilled");
+    assert.equal(second.status, "rejected");
+    assert.ok((second as PromiseRejectedResult).reason instanceof UpstreamBusyError);
+  });
+});
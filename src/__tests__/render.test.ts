@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Block } from "../types.js";
+import { renderBlocks, renderDocumentResult } from "../render.js";
+
+/**
+ * Render blocks in both formats
+ */
+function renderBoth(blocks: Block[], includeBlockIds = false) {
+  return {
+    markdown: renderBlocks(blocks, { format: "markdown", includeBlockIds }),
+    text: renderBlocks(blocks, { format: "text", includeBlockIds }),
+  };
+}
+
+describe("renderBlocks", () => {
+  it("renders pages and headings one level below their page", () => {
+    const { markdown, text } = renderBoth([
+      {
+        id: "page",
+        type: "page",
+        markdown: "Guide",
+        blocks: [
+          { id: "heading", textStyle: "h2", markdown: "## Setup" },
+          { id: "body", markdown: "Install **it**" },
+        ],
+      },
+    ]);
+
+    assert.equal(markdown, "# Guide\n\n### Setup\n\nInstall **it**");
+    assert.equal(text, "Guide\n\nSetup\n\nInstall it");
+  });
+
+  it("keeps list items together, nests children and numbers runs", () => {
+    const blocks: Block[] = [
+      {
+        id: "b1",
+        listStyle: "bullet",
+        markdown: "- One",
+        blocks: [{ id: "b2", listStyle: "bullet", markdown: "Nested" }],
+      },
+      { id: "b3", listStyle: "bullet", markdown: "Two" },
+      { id: "n1", listStyle: "numbered", markdown: "1. First" },
+      { id: "n2", listStyle: "numbered", markdown: "Second" },
+      { id: "t1", listStyle: "todo", markdown: "Done", taskInfo: { state: "done" } },
+      { id: "t2", listStyle: "todo", markdown: "- [ ] Open" },
+    ];
+    const expected = "- One\n  - Nested\n- Two\n\n1. First\n2. Second\n\n- [x] Done\n- [ ] Open";
+
+    const { markdown, text } = renderBoth(blocks);
+    assert.equal(markdown, expected);
+    assert.equal(text, expected);
+  });
+
+  it("renders code, quotes and dividers", () => {
+    const { markdown, text } = renderBoth([
+      { id: "code", type: "code", rawCode: "npm test", language: "sh" },
+      { id: "quote", decorations: ["quote"], markdown: "Keep it *short*" },
+      { id: "line", type: "line" },
+      { id: "end", markdown: "End" },
+    ]);
+
+    assert.equal(markdown, "```sh\nnpm test\n```\n\n> Keep it *short*\n\n---\n\nEnd");
+    assert.equal(text, "npm test\n\nKeep it short\n\nEnd");
+  });
+
+  it("renders tables, with a header separator only in Markdown", () => {
+    const { markdown, text } = renderBoth([
+      {
+        id: "table",
+        type: "table",
+        rows: [
+          ["Name", "Role"],
+          [{ markdown: "Ada" }, "Eng|ineer"],
+        ],
+      },
+    ]);
+
+    assert.equal(markdown, "| Name | Role |\n| --- | --- |\n| Ada | Eng\\|ineer |");
+    assert.equal(text, "| Name | Role |\n| Ada | Eng\\|ineer |");
+  });
+
+  it("renders links and images", () => {
+    const { markdown, text } = renderBoth([
+      { id: "url", type: "url", url: "https://craft.do", title: "Craft" },
+      { id: "image", type: "image", url: "https://example.com/logo.png", markdown: "Logo" },
+      { id: "inline", markdown: "See [the docs](https://example.com/docs)" },
+    ]);
+
+    assert.equal(
+      markdown,
+      "[Craft](https://craft.do)\n\n![Logo](https://example.com/logo.png)\n\nSee [the docs](https://example.com/docs)"
+    );
+    assert.equal(
+      text,
+      "Craft (https://craft.do)\n\nLogo (https://example.com/logo.png)\n\nSee the docs (https://example.com/docs)"
+    );
+  });
+
+  it("adds block IDs as anchors only when asked", () => {
+    const blocks: Block[] = [
+      { id: "h", textStyle: "h1", markdown: "Intro" },
+      { id: "t", markdown: "Hello" },
+      { id: "b", listStyle: "bullet", markdown: "Item" },
+      { id: "c", type: "code", rawCode: "x" },
+    ];
+
+    const withIds = renderBoth(blocks, true);
+    assert.equal(withIds.markdown, "# Intro {#h}\n\nHello {#t}\n\n- Item {#b}\n\n{#c}\n```\nx\n```");
+    assert.equal(withIds.text, "Intro {#h}\n\nHello {#t}\n\n- Item {#b}\n\n{#c}\nx");
+
+    const withoutIds = renderBoth(blocks);
+    assert.equal(withoutIds.markdown, "# Intro\n\nHello\n\n- Item\n\n```\nx\n```");
+    assert.equal(withoutIds.text, "Intro\n\nHello\n\n- Item\n\nx");
+  });
+});
+
+describe("renderDocumentResult", () => {
+  it("adds a paging footer to paginated results", () => {
+    const rendered = renderDocumentResult(
+      {
+        data: [{ id: "t", markdown: "Hi" }],
+        _pagination: { offset: 0, returned: 1, total: 3 },
+        nextCursor: "abc",
+      },
+      { format: "text" }
+    );
+
+    assert.equal(rendered, "Hi\n\n---\nItems 1-1 of 3.\nnextCursor: abc");
+  });
+});
@@ -0,0 +1,140 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  redactEndpoint,
+  requestWithRetry,
+} from "../resilience.js";
+
+describe("CircuitBreaker", () => {
+  const options = { failureThreshold: 2, resetTimeoutMs: 20 };
+
+  it("opens after consecutive failures and fails fast", () => {
+    const breaker = new CircuitBreaker("http://craft.test/a", options);
+    breaker.recordFailure();
+    breaker.acquire();
+    breaker.recordFailure();
+
+    assert.equal(breaker.isOpen(), true);
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+  });
+
+  it("counts only consecutive failures", () => {
+    const breaker = new CircuitBreaker("http://craft.test/b", options);
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    assert.equal(breaker.isOpen(), false);
+    assert.equal(breaker.snapshot().consecutiveFailures, 1);
+  });
+
+  it("lets one trial request through once the reset timeout passed", async () => {
+    const breaker = new CircuitBreaker("http://craft.test/c", options);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    breaker.acquire();
+    assert.equal(breaker.snapshot().state, "half-open");
+    assert.throws(() => breaker.acquire(), CircuitOpenError);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.snapshot().state, "closed");
+    breaker.acquire();
+  });
+
+  it("re-opens when the trial request fails", async () => {
+    const breaker = new CircuitBreaker("http://craft.test/d", options);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    breaker.acquire();
+    breaker.recordFailure();
+    assert.equal(breaker.isOpen(), true);
+  });
+});
+
+describe("redactEndpoint", () => {
+  it("masks the share-link token", () => {
+    assert.equal(
+      redactEndpoint("https://connect.craft.do/links/AbCdEfGh1234/api/v1"),
+      "https://connect.craft.do/links/***1234/api/v1"
+    );
+  });
+});
+
+describe("requestWithRetry", () => {
+  let server: Server;
+  let endpoint: string;
+  const responses: number[] = [];
+  let hits = 0;
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    process.env.CRAFT_RETRY_BASE_DELAY_MS = "1";
+    process.env.CRAFT_RETRY_ATTEMPTS = "2";
+    server = createServer((_req, res) => {
+      hits++;
+      res.statusCode = responses.shift() ?? 200;
+      res.end("{}");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.CRAFT_RETRY_BASE_DELAY_MS;
+    delete process.env.CRAFT_RETRY_ATTEMPTS;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("retries server errors on idempotent requests", async () => {
+    hits = 0;
+    responses.push(503, 502);
+    const response = await requestWithRetry(`${endpoint}/get`, { url: `${endpoint}/get` });
+
+    assert.equal(response.status, 200);
+    assert.equal(hits, 3);
+  });
+
+  it("gives up after the configured attempts", async () => {
+    hits = 0;
+    responses.push(500, 500, 500);
+    await assert.rejects(requestWithRetry(`${endpoint}/fail`, { url: `${endpoint}/fail` }));
+    assert.equal(hits, 3);
+  });
+
+  it("doesn't repeat a POST after a server error", async () => {
+    hits = 0;
+    responses.push(500);
+    await assert.rejects(
+      requestWithRetry(`${endpoint}/post`, { url: `${endpoint}/post`, method: "POST" })
+    );
+    assert.equal(hits, 1);
+  });
+
+  it("retries a POST that was rate limited", async () => {
+    hits = 0;
+    responses.push(429);
+    const response = await requestWithRetry(`${endpoint}/post-429`, {
+      url: `${endpoint}/post-429`,
+      method: "POST",
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(hits, 2);
+  });
+
+  it("doesn't retry client errors", async () => {
+    hits = 0;
+    responses.push(404);
+    await assert.rejects(requestWithRetry(`${endpoint}/missing`, { url: `${endpoint}/missing` }));
+    assert.equal(hits, 1);
+  });
+});
@@ -0,0 +1,88 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Config } from "../types.js";
+import type { Principal } from "../auth.js";
+import { AuditEntry, readAuditLog } from "../audit.js";
+import { subscribeResource, unsubscribeResource } from "../resources.js";
+
+describe("resource subscriptions", () => {
+  let server: Server;
+  let dir: string;
+  let config: Config;
+  let content = "First version";
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    process.env.RATE_LIMIT_BURST = "2";
+    process.env.RATE_LIMIT_PER_MINUTE = "0";
+    process.env.RESOURCE_POLL_INTERVAL_SECONDS = "1";
+
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ id: "root", markdown: content }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    dir = mkdtempSync(join(tmpdir(), "craft-resources-"));
+    config = {
+      documents: [
+        {
+          name: "Notes",
+          apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          cacheTtlSeconds: 0,
+        },
+      ],
+      audit: { enabled: true, path: join(dir, "audit.jsonl") },
+    };
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.RATE_LIMIT_BURST;
+    delete process.env.RATE_LIMIT_PER_MINUTE;
+    delete process.env.RESOURCE_POLL_INTERVAL_SECONDS;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("charge every poll to the subscriber", async () => {
+    const updates: string[] = [];
+    const session = {
+      transport: {},
+      sendResourceUpdated: async ({ uri }: { uri: string }) => {
+        updates.push(uri);
+      },
+    } as unknown as McpServer;
+    const principal: Principal = { kind: "key", name: "watcher" };
+
+    // Subscribing reads the current content: the first token
+    await subscribeResource(session, () => config, "craft://Notes", { principal });
+
+    // The next poll notices the change: the second and last token
+    content = "Second version";
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    assert.deepEqual(updates, ["craft://Notes"]);
+
+    // Further polls are rate limited, so this change goes unnoticed
+    content = "Third version";
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    assert.deepEqual(updates, ["craft://Notes"]);
+
+    unsubscribeResource(session, "craft://Notes");
+
+    const entries: AuditEntry[] = [];
+    for await (const entry of readAuditLog(config.audit!.path!, { caller: "watcher" })) {
+      entries.push(entry);
+    }
+    const outcomes = entries.map((entry) => `${entry.tool}:${entry.outcome}`);
+    assert.deepEqual(outcomes.slice(0, 2), ["read_document:success", "read_document:success"]);
+    assert.ok(outcomes.length > 2);
+    assert.ok(outcomes.slice(2).every((outcome) => outcome === "read_document:rate_limited"));
+  });
+});
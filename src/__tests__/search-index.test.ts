@@ -0,0 +1,147 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Block, Config } from "../types.js";
+import { SearchIndex, collectTextBlocks, tokenize } from "../search-index.js";
+
+describe("tokenize", () => {
+  it("drops stopwords and stems terms", () => {
+    assert.deepEqual(tokenize("The meetings were planned"), tokenize("meeting plan"));
+  });
+});
+
+describe("collectTextBlocks", () => {
+  it("records the pages and headings a block sits under", () => {
+    const blocks = collectTextBlocks({
+      id: "root",
+      type: "page",
+      markdown: "Project",
+      blocks: [
+        { id: "h", textStyle: "h1", markdown: "Goals" },
+        { id: "t", markdown: "Ship it" },
+      ],
+    });
+
+    assert.deepEqual(
+      blocks.map(({ block, path }) => [block.id, path]),
+      [
+        ["root", []],
+        ["h", ["Project"]],
+        ["t", ["Project", "Goals"]],
+      ]
+    );
+  });
+});
+
+describe("SearchIndex", () => {
+  const documents: Record<string, Block> = {
+    alpha: {
+      id: "alpha",
+      type: "page",
+      markdown: "Alpha",
+      blocks: [
+        { id: "a1", markdown: "Budget review budget numbers" },
+        { id: "a2", markdown: "Budget and a lot of other unrelated words about lunch plans" },
+      ],
+    },
+    beta: {
+      id: "beta",
+      type: "page",
+      markdown: "Beta",
+      blocks: [{ id: "b1", markdown: "Hiring plan for the budget year" }],
+    },
+  };
+
+  let server: Server;
+  let dir: string;
+  let config: Config;
+  let requests = 0;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      const name = req.url!.split("/")[1];
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(documents[name]));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    dir = mkdtempSync(join(tmpdir(), "craft-index-"));
+    config = {
+      documents: ["alpha", "beta"].map((name) => ({
+        name,
+        apiEndpoint: `${base}/${name}`,
+        cacheTtlSeconds: 0,
+      })),
+    };
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("ranks frequent terms in short blocks first", async () => {
+    const index = new SearchIndex(join(dir, "rank.json"));
+    assert.deepEqual(await index.refresh(config, 0), []);
+
+    const results = index.search("budget", 10);
+    assert.deepEqual(
+      results.map((result) => result.blockId),
+      ["a1", "b1", "a2"]
+    );
+    assert.deepEqual(results[0].path, ["Alpha"]);
+  });
+
+  it("limits results to the requested documents", async () => {
+    const index = new SearchIndex(join(dir, "filter.json"));
+    await index.refresh(config, 0);
+
+    assert.deepEqual(
+      index.search("budget", 10, ["beta"]).map((result) => result.blockId),
+      ["b1"]
+    );
+  });
+
+  it("only re-fetches documents older than the refresh interval", async () => {
+    const index = new SearchIndex(join(dir, "interval.json"));
+    await index.refresh(config, 60000);
+    requests = 0;
+    await index.refresh(config, 60000);
+
+    assert.equal(requests, 0);
+  });
+
+  it("only rewrites the index file when content changed", async () => {
+    const path = join(dir, "persist.json");
+    const index = new SearchIndex(path);
+    await index.refresh(config, 0);
+    assert.equal(existsSync(path), true);
+
+    rmSync(path);
+    await index.refresh(config, 0);
+    assert.equal(existsSync(path), false);
+
+    documents.beta.blocks!.push({ id: "b2", markdown: "Offsite agenda" });
+    await index.refresh(config, 0);
+    assert.equal(existsSync(path), true);
+    assert.equal(index.search("offsite", 10)[0].blockId, "b2");
+  });
+
+  it("loads a saved index instead of starting empty", async () => {
+    const path = join(dir, "reload.json");
+    await new SearchIndex(path).refresh(config, 0);
+
+    const reloaded = new SearchIndex(path);
+    requests = 0;
+    await reloaded.refresh(config, 60000);
+
+    assert.equal(requests, 0);
+    assert.equal(reloaded.search("hiring", 10)[0].blockId, "b1");
+  });
+});
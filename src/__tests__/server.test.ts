@@ -0,0 +1,65 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Config } from "../types.js";
+import { createExpressApp } from "../server.js";
+
+const config: Config = {
+  documents: [{ name: "Notes", apiEndpoint: "http://127.0.0.1:9/notes" }],
+  apiKeys: [{ name: "default", key: "secret-1" }],
+};
+
+describe("monitoring endpoints", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    process.env.LOG_LEVEL = "error";
+    const app = createExpressApp(
+      () => new McpServer({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } }),
+      () => config
+    );
+    server = await new Promise<Server>((resolve) => {
+      const listening: Server = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.METRICS_TOKEN;
+    delete process.env.LOG_LEVEL;
+  });
+
+  it("only report the health status without credentials", async () => {
+    const anonymous = await fetch(`${baseUrl}/health`);
+    assert.deepEqual(await anonymous.json(), { status: "ok" });
+
+    const authenticated: any = await (
+      await fetch(`${baseUrl}/health`, { headers: { Authorization: "Bearer secret-1" } })
+    ).json();
+    assert.equal(authenticated.status, "ok");
+    assert.ok(authenticated.cache);
+  });
+
+  it("need credentials for metrics", async () => {
+    assert.equal((await fetch(`${baseUrl}/metrics`)).status, 401);
+
+    const metrics = await fetch(`${baseUrl}/metrics`, {
+      headers: { Authorization: "Bearer secret-1" },
+    });
+    assert.equal(metrics.status, 200);
+    assert.match(await metrics.text(), /craft_mcp_active_sessions/);
+  });
+
+  it("take only METRICS_TOKEN for metrics when it is set", async () => {
+    process.env.METRICS_TOKEN = "scrape-secret";
+
+    const scrape = (token: string) =>
+      fetch(`${baseUrl}/metrics`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal((await scrape("scrape-secret")).status, 200);
+    assert.equal((await scrape("secret-1")).status, 401);
+  });
+});
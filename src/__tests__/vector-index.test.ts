@@ -0,0 +1,124 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Block, Config } from "../types.js";
+import { registerEmbeddingProvider } from "../embeddings.js";
+import { chunkBlocks } from "../vector-index.js";
+import { semanticSearch } from "../tools.js";
+
+/**
+ * Embed text as counts of its words hashed into 16 buckets
+ */
+function embedWords(text: string): number[] {
+  const vector = new Array(16).fill(0);
+  for (const word of text.toLowerCase().match(/\w+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % 16;
+    vector[hash]++;
+  }
+  return vector;
+}
+
+describe("chunkBlocks", () => {
+  it("starts a new passage at every page and heading", () => {
+    const chunks = chunkBlocks({
+      id: "root",
+      type: "page",
+      markdown: "Plan",
+      blocks: [
+        { id: "h1", textStyle: "h1", markdown: "Budget" },
+        { id: "t1", markdown: "Numbers due Friday" },
+        { id: "t2", markdown: "Ask finance" },
+        { id: "h2", textStyle: "h1", markdown: "Hiring" },
+        { id: "t3", markdown: "Two engineers" },
+      ],
+    });
+
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.blockIds),
+      [["root"], ["h1", "t1", "t2"], ["h2", "t3"]]
+    );
+    assert.deepEqual(chunks[1].path, ["Plan"]);
+  });
+});
+
+describe("semantic_search", () => {
+  const document: Block = {
+    id: "root",
+    type: "page",
+    markdown: "Notes",
+    blocks: [
+      { id: "b1", markdown: "budget numbers for the offsite" },
+      { id: "h1", textStyle: "h1", markdown: "Garden" },
+      { id: "b2", markdown: "water the tomatoes" },
+    ],
+  };
+
+  let server: Server;
+  let dir: string;
+  let config: Config;
+  let release: () => void = () => {};
+  let blocked: Promise<void> = Promise.resolve();
+
+  before(async () => {
+    registerEmbeddingProvider("test-words", () => ({
+      id: "test-words",
+      embed: async (texts) => {
+        await blocked;
+        return texts.map(embedWords);
+      },
+    }));
+
+    server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(document));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    dir = mkdtempSync(join(tmpdir(), "craft-vectors-"));
+    config = {
+      documents: [
+        {
+          name: "Notes",
+          apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+          cacheTtlSeconds: 0,
+        },
+      ],
+      semanticSearch: {
+        enabled: true,
+        provider: "test-words",
+        path: join(dir, "vectors.json"),
+        maxWaitSeconds: 0.05,
+      },
+    };
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports documents still being indexed instead of waiting for them", async () => {
+    blocked = new Promise((resolve) => {
+      release = resolve;
+    });
+
+    const result: any = await semanticSearch(config, "budget numbers");
+    assert.equal(result.indexing, true);
+    assert.deepEqual(result.pendingDocuments, ["Notes"]);
+    assert.deepEqual(result.results, []);
+
+    release();
+  });
+
+  it("searches the finished index", async () => {
+    const result: any = await semanticSearch(config, "budget numbers");
+
+    assert.equal(result.indexing, undefined);
+    assert.deepEqual(result.results[0].blockIds, ["root", "b1"]);
+  });
+});
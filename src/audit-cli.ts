@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+import dotenv from "dotenv";
+import { parseArgs } from "util";
+import type { AuditConfig } from "./types.js";
+import { AuditEntry, AuditQuery, formatCaller, getAuditPath, readAuditLog } from "./audit.js";
+import { loadConfig } from "./config.js";
+
+// Load environment variables referenced by the configuration
+dotenv.config({ quiet: true });
+
+const USAGE = `Usage: npm run audit-log -- [options]
+       craft-mcp-audit [options]
+
+Query the audit log of tool calls, oldest first.
+
+Options:
+  --since <time>      Entries at or after this time (ISO 8601, or 30m/12h/7d ago)
+  --until <time>      Entries at or before this time (same formats)
+  --document <name>   Entries that reached this document
+  --caller <name>     Entries by this API key or OAuth user (key:<name> or
+                      oauth:<name> for only one of them)
+  --tool <name>       Entries for this tool
+  --file <path>       Audit file to read (default: audit.path from the configuration)
+  --json              Print entries as JSON lines
+  --help              Show this help`;
+
+/**
+ * Parse a time given as ISO 8601 or as a duration before now
+ *
+ * @param value - e.g. "2025-01-31", "2025-01-31T12:00:00Z" or "12h"
+ * @param option - Option name, for the error message
+ * @returns Parsed time
+ */
+function parseTime(value: string, option: string): Date {
+  const relative = value.match(/^(\d+)([smhd])$/);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "s" | "m" | "h" | "d"];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    throw new Error(`Invalid --${option}: "${value}"`);
+  }
+  return time;
+}
+
+/**
+ * Read the audit settings from the configuration
+ *
+ * @returns Audit settings, or undefined to use the defaults if the
+ *   configuration can't be loaded
+ */
+function loadAuditConfig(): AuditConfig | undefined {
+  try {
+    return loadConfig().audit;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split("\n")[0] : error;
+    console.error(`Using the default audit path (${reason})`);
+    return undefined;
+  }
+}
+
+/**
+ * Format an entry as one human-readable line
+ */
+function formatEntry(entry: AuditEntry): string {
+  const documents = entry.documents.length > 0 ? entry.documents.join(", ") : "-";
+  return [
+    entry.time,
+    formatCaller(entry),
+    entry.tool,
+    entry.outcome,
+    `[${documents}]`,
+    `${entry.resultBytes}B`,
+    `${entry.durationMs}ms`,
+    ...(entry.error ? [`error: ${entry.error}`] : []),
+  ].join("  ");
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      since: { type: "string" },
+      until: { type: "string" },
+      document: { type: "string" },
+      caller: { type: "string" },
+      tool: { type: "string" },
+      file: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const query: AuditQuery = {
+    since: values.since ? parseTime(values.since, "since") : undefined,
+    until: values.until ? parseTime(values.until, "until") : undefined,
+    document: values.document,
+    caller: values.caller,
+    tool: values.tool,
+  };
+  const path = values.file ?? getAuditPath(loadAuditConfig());
+
+  let count = 0;
+  for await (const entry of readAuditLog(path, query)) {
+    console.log(values.json ? JSON.stringify(entry) : formatEntry(entry));
+    count++;
+  }
+
+  if (!values.json) {
+    console.error(`${count} entries from ${path}`);
+  }
+}
+
+// Stop quietly when piped into a command that exits early, like head
+process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code === "EPIPE") process.exit(0);
+  throw error;
+});
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(1);
+});
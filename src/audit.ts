@@ -0,0 +1,240 @@
+import { createReadStream } from "fs";
+import { appendFile, mkdir, readdir, rename, stat, unlink } from "fs/promises";
+import { basename, dirname, isAbsolute, join } from "path";
+import { createInterface } from "readline";
+import { fileURLToPath } from "url";
+import type { AuditConfig, Config } from "./types.js";
+import type { ToolCallStatus } from "./metrics.js";
+import type { PrincipalKind } from "./auth.js";
+import { logger, redactFields } from "./logger.js";
+
+// Get directory name for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  time: string; // ISO 8601
+  requestId?: string;
+  caller: string; // API key or OAuth user name, "anonymous" without auth
+  callerKind?: PrincipalKind; // tells an API key and an OAuth user of the same name apart
+  sessionId?: string;
+  tool: string;
+  arguments: unknown; // as sent by the client, redacted
+  documents: string[]; // names of the documents the call reached
+  outcome: ToolCallStatus;
+  error?: string;
+  resultBytes: number;
+  durationMs: number;
+}
+
+/**
+ * Criteria for reading back the audit log (all optional)
+ */
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  document?: string;
+  caller?: string; // a name, or kind and name like key:laptop or oauth:alice
+  tool?: string;
+}
+
+const DEFAULT_PATH = ".craft-audit/audit.jsonl";
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_REDACTED_ARGUMENTS = ["markdown"];
+
+/**
+ * Size of each audit file as last written, so rotation doesn't stat per entry
+ */
+const fileSizes = new Map<string, number>();
+
+/**
+ * Pending writes; entries are appended one at a time, in call order
+ */
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Check whether the audit log is switched on
+ *
+ * @param config - Application configuration
+ * @returns True if audit.enabled is set
+ */
+export function isAuditEnabled(config: Config): boolean {
+  return config.audit?.enabled === true;
+}
+
+/**
+ * Resolve the audit log path against the project root
+ *
+ * @param audit - Audit settings from config.json
+ * @returns Absolute path of the current audit file
+ */
+export function getAuditPath(audit?: AuditConfig): string {
+  const configured = audit?.path ?? DEFAULT_PATH;
+  return isAbsolute(configured) ? configured : join(__dirname, "..", configured);
+}
+
+/**
+ * Shift rotated files up by one and start a fresh audit file
+ *
+ * audit.jsonl becomes audit.jsonl.1, audit.jsonl.1 becomes audit.jsonl.2
+ * and so on; the file past maxFiles is overwritten.
+ */
+async function rotate(path: string, maxFiles: number): Promise<void> {
+  if (maxFiles <= 0) {
+    await unlink(path);
+    return;
+  }
+
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    await rename(`${path}.${i}`, `${path}.${i + 1}`).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+  await rename(path, `${path}.1`);
+}
+
+/**
+ * Append one line to the audit file, rotating it first if it would grow too large
+ */
+async function append(audit: AuditConfig, line: string): Promise<void> {
+  const path = getAuditPath(audit);
+  const maxBytes = audit.maxBytes ?? DEFAULT_MAX_BYTES;
+  const bytes = Buffer.byteLength(line);
+
+  let size = fileSizes.get(path);
+  if (size === undefined) {
+    await mkdir(dirname(path), { recursive: true });
+    size = await stat(path).then(
+      (stats) => stats.size,
+      () => 0
+    );
+  }
+
+  if (size > 0 && size + bytes > maxBytes) {
+    await rotate(path, audit.maxFiles ?? DEFAULT_MAX_FILES);
+    size = 0;
+  }
+
+  await appendFile(path, line, { encoding: "utf-8", mode: 0o600 });
+  fileSizes.set(path, size + bytes);
+}
+
+/**
+ * Record a tool call in the audit log
+ *
+ * Arguments listed in audit.redactArguments, and any named like
+ * credentials, are replaced before writing. A failed write is logged and
+ * never fails the tool call itself.
+ *
+ * @param config - Application configuration
+ * @param entry - The call, with arguments as sent by the client
+ * @returns Resolves once the entry is on disk (immediately if auditing is off)
+ */
+export function recordAudit(config: Config, entry: AuditEntry): Promise<void> {
+  if (!isAuditEnabled(config)) {
+    return Promise.resolve();
+  }
+
+  const audit = config.audit!;
+  const line =
+    JSON.stringify({
+      ...entry,
+      arguments: redactFields(
+        entry.arguments,
+        audit.redactArguments ?? DEFAULT_REDACTED_ARGUMENTS
+      ),
+    }) + "\n";
+
+  writeQueue = writeQueue
+    .then(() => append(audit, line))
+    .catch((error) => {
+      // Forget the cached size so the next write starts from the real file
+      fileSizes.delete(getAuditPath(audit));
+      logger.error("Failed to write audit log", { error });
+    });
+  return writeQueue;
+}
+
+/**
+ * List the audit files, oldest first
+ *
+ * @param path - Path of the current audit file
+ * @returns Rotated files (highest number first) followed by the current one
+ */
+async function listAuditFiles(path: string): Promise<string[]> {
+  const name = basename(path);
+  const entries = await readdir(dirname(path)).catch(() => [] as string[]);
+
+  const rotated = entries
+    .map((entry) => ({ entry, match: entry.match(/\.(\d+)$/) }))
+    .filter(({ entry, match }) => match && entry === `${name}.${match[1]}`)
+    .sort((a, b) => Number(b.match![1]) - Number(a.match![1]))
+    .map(({ entry }) => join(dirname(path), entry));
+
+  return entries.includes(name) ? [...rotated, path] : rotated;
+}
+
+/**
+ * Get the caller of an entry as kind and name, e.g. key:laptop
+ *
+ * @param entry - Audit entry
+ * @returns Kind and name, or only the name for entries without a kind
+ */
+export function formatCaller(entry: AuditEntry): string {
+  return entry.callerKind ? `${entry.callerKind}:${entry.caller}` : entry.caller;
+}
+
+/**
+ * Check whether an entry matches a query
+ */
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.time);
+  return (
+    (!query.since || time >= query.since.getTime()) &&
+    (!query.until || time <= query.until.getTime()) &&
+    (!query.document || entry.documents.includes(query.document)) &&
+    (!query.caller || [entry.caller, formatCaller(entry)].includes(query.caller)) &&
+    (!query.tool || entry.tool === query.tool)
+  );
+}
+
+/**
+ * Read audit entries matching a query, oldest first
+ *
+ * Rotated files are included. Lines that aren't valid JSON (such as one
+ * cut short by a crash) are skipped.
+ *
+ * @param path - Path of the current audit file
+ * @param query - Filters to apply
+ * @returns Matching entries
+ */
+export async function* readAuditLog(
+  path: string,
+  query: AuditQuery = {}
+): AsyncGenerator<AuditEntry> {
+  for (const file of await listAuditFiles(path)) {
+    const lines = createInterface({
+      input: createReadStream(file, "utf-8"),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if (matches(entry, query)) {
+        yield entry;
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { ApiKeyConfig, Config } from "./types.js";
+import { addSecrets } from "./logger.js";
+
+/**
+ * How a caller authenticated
+ */
+export type PrincipalKind = "key" | "oauth" | "anonymous";
+
+/**
+ * Who is calling, and what they may use
+ *
+ * `name` is only unique within a `kind`: an OAuth user may be named like an
+ * API key, so compare callers with getPrincipalId(). `documents` and
+ * `tools` are undefined when the caller is not restricted.
+ */
+export interface Principal {
+  kind: PrincipalKind;
+  name: string; // API key name or OAuth username
+  documents?: string[];
+  tools?: string[];
+}
+
+/**
+ * Outcome of checking a request's credentials
+ */
+export type AuthResult =
+  | { principal: Principal; error?: undefined }
+  | { principal?: undefined; error: string };
+
+/**
+ * Caller used when authentication is disabled
+ */
+export const ANONYMOUS: Principal = { kind: "anonymous", name: "anonymous" };
+
+/**
+ * Get an identifier that tells callers of different kinds apart
+ *
+ * @param principal - Authenticated caller
+ * @returns e.g. `key:default` for an API key, `oauth:alice` for an OAuth user
+ */
+export function getPrincipalId(principal: Principal): string {
+  return `${principal.kind}:${principal.name}`;
+}
+
+/**
+ * Request headers as the different transports hand them over
+ */
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Collect the API keys from config.json and the MCP_API_KEY variable
+ *
+ * MCP_API_KEY is an unrestricted key named "default".
+ *
+ * @param config - Application configuration
+ * @returns Configured keys
+ */
+function getApiKeys(config: Config): ApiKeyConfig[] {
+  const keys = [...(config.apiKeys ?? [])];
+  if (process.env.MCP_API_KEY) {
+    keys.push({ name: "default", key: process.env.MCP_API_KEY });
+  }
+  return keys;
+}
+
+/**
+ * Check whether requests must carry an API key
+ *
+ * @param config - Application configuration
+ * @returns True if any key is configured
+ */
+export function isAuthEnabled(config: Config): boolean {
+  return getApiKeys(config).length > 0;
+}
+
+/**
+ * Keep the configured API keys out of the logs
+ *
+ * @param config - Application configuration
+ */
+export function redactApiKeys(config: Config): void {
+  addSecrets(getApiKeys(config).map((key) => key.key));
+}
+
+/**
+ * Compare two secrets in constant time
+ *
+ * Both are hashed first so inputs of different lengths take the same time.
+ *
+ * @param a - Secret sent by the caller
+ * @param b - Expected secret
+ * @returns True if they are equal
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Get the credential sent with a request
+ *
+ * `Authorization: Bearer <key>` is preferred. The `api_key` query parameter
+ * is still accepted for clients that can't set headers, but it ends up in
+ * access logs.
+ *
+ * @param headers - Request headers
+ * @param query - Query string parameters
+ * @returns The key, or undefined if none was sent
+ */
+export function extractCredential(
+  headers: Headers | undefined,
+  query?: Record<string, unknown> | null
+): string | undefined {
+  const header = Object.entries(headers ?? {}).find(
+    ([name]) => name.toLowerCase() === "authorization"
+  )?.[1];
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(.+)$/i);
+
+  if (match) {
+    return match[1].trim();
+  }
+
+  const queryKey = query?.api_key;
+  return typeof queryKey === "string" && queryKey !== "" ? queryKey : undefined;
+}
+
+/**
+ * Identify the caller of a request
+ *
+ * Every configured key is compared, so the time taken doesn't reveal which
+ * key matched or how many there are.
+ *
+ * @param config - Application configuration
+ * @param headers - Request headers
+ * @param query - Query string parameters
+ * @returns The caller, or an error message for a 401 response
+ */
+export function authenticate(
+  config: Config,
+  headers: Headers | undefined,
+  query?: Record<string, unknown> | null
+): AuthResult {
+  const keys = getApiKeys(config);
+
+  if (keys.length === 0) {
+    return { principal: ANONYMOUS };
+  }
+
+  const credential = extractCredential(headers, query);
+  if (!credential) {
+    return { error: "Unauthorized: API key required (Authorization: Bearer <key>)" };
+  }
+
+  let matched: ApiKeyConfig | undefined;
+  for (const key of keys) {
+    if (safeEqual(credential, key.key) && !matched) {
+      matched = key;
+    }
+  }
+
+  if (!matched) {
+    return { error: "Unauthorized: Invalid API key" };
+  }
+
+  return {
+    principal: {
+      kind: "key",
+      name: matched.name,
+      documents: matched.documents,
+      tools: matched.tools,
+    },
+  };
+}
+
+/**
+ * Check whether a caller may use a tool
+ *
+ * @param principal - Authenticated caller
+ * @param toolName - Tool name
+ * @returns True if the caller's key doesn't restrict tools or lists this one
+ */
+export function isToolAllowed(principal: Principal, toolName: string): boolean {
+  return !principal.tools || principal.tools.includes(toolName);
+}
+
+/**
+ * Narrow the configuration to the documents a caller may see
+ *
+ * @param config - Application configuration
+ * @param principal - Authenticated caller
+ * @returns Configuration with only the caller's documents
+ */
+export function scopeConfig(config: Config, principal: Principal): Config {
+  if (!principal.documents) {
+    return config;
+  }
+
+  return {
+    ...config,
+    documents: config.documents.filter((doc) =>
+      principal.documents!.includes(doc.name)
+    ),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Cache statistics as reported by /health
+ */
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+/**
+ * A cached value with its bookkeeping
+ */
+interface CacheEntry {
+  value: unknown;
+  size: number;
+  expiresAt: number;
+  endpoint: string;
+}
+
+/**
+ * In-memory LRU cache bounded by the total size of its values in bytes
+ *
+ * Entries are kept in a Map, whose iteration order is insertion order:
+ * reading an entry re-inserts it, so the first key is always the least
+ * recently used one.
+ */
+export class LRUCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Get a value if it is cached and not expired
+   *
+   * @param key - Cache key
+   * @returns Cached value, or undefined on a miss
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value as T;
+  }
+
+  /**
+   * Store a value, evicting least recently used entries to make room
+   *
+   * @param key - Cache key
+   * @param value - Value to cache (must be JSON-serializable)
+   * @param ttlMs - Time to live in milliseconds
+   * @param endpoint - Craft API endpoint the value belongs to, for invalidation
+   */
+  set(key: string, value: unknown, ttlMs: number, endpoint: string): void {
+    const size = Buffer.byteLength(JSON.stringify(value), "utf8");
+
+    this.delete(key);
+
+    if (ttlMs <= 0 || size > this.maxBytes) {
+      return;
+    }
+
+    while (this.bytes + size > this.maxBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+      this.evictions++;
+    }
+
+    this.entries.set(key, {
+      value,
+      size,
+      expiresAt: Date.now() + ttlMs,
+      endpoint,
+    });
+    this.bytes += size;
+  }
+
+  /**
+   * Drop every entry belonging to an endpoint
+   *
+   * @param endpoint - Craft API endpoint
+   * @returns Number of entries removed
+   */
+  invalidateEndpoint(endpoint: string): number {
+    let removed = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.endpoint === endpoint) {
+        this.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Drop every entry
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Current size and hit/miss counters
+   */
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Shared cache for Craft API responses
+ */
+export const responseCache = new LRUCache(
+  parseInt(process.env.CACHE_MAX_BYTES || "52428800", 10) // Default: 50MB
+);
+
+/**
+ * Build a cache key from an endpoint, path and request parameters
+ *
+ * Parameters are sorted and undefined values dropped so equivalent
+ * requests share an entry.
+ *
+ * @param endpoint - Craft API base URL
+ * @param path - Request path below the endpoint
+ * @param params - Request parameters
+ * @returns Cache key
+ */
+export function createCacheKey(
+  endpoint: string,
+  path: string,
+  params: Record<string, unknown>
+): string {
+  const query = Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(String(params[key]))}`)
+    .join("&");
+  return `${endpoint}${path}?${query}`;
+}
+
+/**
+ * Resolve the time to live for a cached response
+ *
+ * @param ttlSeconds - Per-document TTL from config.json, if set
+ * @returns TTL in milliseconds (CACHE_TTL_SECONDS, default 60s, when unset)
+ */
+export function getCacheTtlMs(ttlSeconds?: number): number {
+  const seconds =
+    ttlSeconds ?? parseInt(process.env.CACHE_TTL_SECONDS || "60", 10);
+  return seconds * 1000;
+}
+
+/**
+ * Get cache statistics
+ *
+ * @returns Size and hit/miss counters of the shared response cache
+ */
+export function getCacheStats(): CacheStats {
+  return responseCache.stats();
+}
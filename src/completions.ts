@@ -0,0 +1,154 @@
+import {
+  CompleteRequest,
+  CompleteResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Config, DocumentConfig } from "./types.js";
+import { Principal, isToolAllowed, scopeConfig } from "./auth.js";
+import { ToolCallOptions, callTool } from "./registry.js";
+import type { OutlineNode } from "./outline.js";
+import { listResourceTemplates } from "./resources.js";
+import { findPrompt } from "./prompts.js";
+import { rankMatches } from "./fuzzy.js";
+import { getDocumentNames, resolveDocumentName } from "./documents.js";
+import { logger } from "./logger.js";
+
+/**
+ * Most values one completion may return, as set by the MCP spec
+ */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Suggests values for one argument
+ *
+ * `documents` are the caller's documents; `config` and `options` are for
+ * reading them through callTool.
+ */
+type Completer = (
+  documents: DocumentConfig[],
+  value: string,
+  resolved: Record<string, string>,
+  config: Config,
+  options: ToolCallOptions
+) => Promise<string[]>;
+
+/**
+ * Suggest document names, fuzzy matched against what was typed and the
+ * documents' aliases
+ */
+const completeDocumentName: Completer = async (documents, value) => {
+  return rankMatches(value, documents, getDocumentNames).map((doc) => doc.name);
+};
+
+/**
+ * Suggest page and heading block IDs of the chosen document
+ *
+ * Entries are matched by title or ID and listed in document order when
+ * nothing was typed. The outline is read with get_document_outline through
+ * callTool, so it needs that tool, counts against the caller's rate limit
+ * and is audited; it is usually answered from the response cache.
+ */
+const completeBlockId: Completer = async (documents, value, resolved, config, options) => {
+  const doc =
+    resolved.documentName !== undefined
+      ? resolveDocumentName(documents, resolved.documentName).doc
+      : undefined;
+  if (!doc || (options.principal && !isToolAllowed(options.principal, "get_document_outline"))) {
+    return [];
+  }
+
+  const { result, isError } = await callTool(
+    config,
+    "get_document_outline",
+    { documentName: doc.name },
+    { ...options, maxResponseSize: Infinity }
+  );
+  if (isError || result?.error) {
+    logger.warn("Failed to fetch outline for completion", {
+      document: doc.name,
+      error: result?.error,
+    });
+    return [];
+  }
+
+  const entries: OutlineNode[] = [];
+  const collect = (nodes: OutlineNode[]) => {
+    for (const node of nodes) {
+      entries.push(node);
+      collect(node.children);
+    }
+  };
+  collect(result.outline ?? []);
+
+  return rankMatches(value, entries, (entry) => [entry.title, entry.id]).map((entry) => entry.id);
+};
+
+/**
+ * Completers by argument name, shared by prompts and resource templates
+ */
+const COMPLETERS: Record<string, Completer> = {
+  documentName: completeDocumentName,
+  blockId: completeBlockId,
+};
+
+/**
+ * Check that a completion reference names a known prompt or resource template
+ *
+ * @returns Names of the arguments the reference takes
+ * @throws McpError if the prompt doesn't exist for the caller
+ */
+async function getReferenceArguments(
+  ref: CompleteRequest["params"]["ref"],
+  principal?: Principal
+): Promise<string[]> {
+  if (ref.type === "ref/prompt") {
+    const prompt = await findPrompt(ref.name, principal);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    return (prompt.arguments ?? []).map((arg) => arg.name);
+  }
+
+  const template = listResourceTemplates().find((t) => t.uriTemplate === ref.uri);
+  return template ? [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map(([, name]) => name) : [];
+}
+
+/**
+ * Suggest values for a prompt or resource template argument
+ *
+ * `documentName` arguments complete to the caller's document names and
+ * `blockId` arguments to the pages and headings of the document already
+ * chosen in `context.arguments.documentName`. Other arguments get no
+ * suggestions.
+ *
+ * @param config - Application configuration
+ * @param params - Parameters of the completion/complete request
+ * @param options - Caller and session of the request; the caller limits the
+ *   documents suggested
+ * @returns Up to 100 values, best match first
+ * @throws McpError if the request references an unknown prompt
+ */
+export async function complete(
+  config: Config,
+  params: CompleteRequest["params"],
+  options: ToolCallOptions = {}
+): Promise<CompleteResult> {
+  const { ref, argument, context } = params;
+  const principal = options.principal;
+  const args = await getReferenceArguments(ref, principal);
+  const completer = args.includes(argument.name) ? COMPLETERS[argument.name] : undefined;
+
+  const documents = principal ? scopeConfig(config, principal).documents : config.documents;
+  const values = completer
+    ? await completer(documents, argument.value, context?.arguments ?? {}, config, options)
+    : [];
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS,
+    },
+  };
+}
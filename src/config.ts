@@ -0,0 +1,434 @@
+import { z } from "zod";
+import { readFileSync, watch } from "fs";
+import { fileURLToPath } from "url";
+import { basename, dirname, join, resolve } from "path";
+import type { Config, DocumentPermission } from "./types.js";
+import { PERMISSION_LEVELS } from "./permissions.js";
+import { redactApiKeys } from "./auth.js";
+import { normalizeText, rankMatches } from "./fuzzy.js";
+import { logger } from "./logger.js";
+
+// Get directory name for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Where the configuration was read from
+ */
+export interface ConfigSource {
+  name: string; // file path, or "CRAFT_CONFIG" for inline JSON
+  text: string;
+}
+
+/**
+ * How long to wait for more file events before reloading
+ */
+const RELOAD_DEBOUNCE_MS = 250;
+
+const nonNegative = z.number().min(0, "must be a non-negative number");
+const positive = z.number().positive("must be a positive number");
+
+const documentSchema = z.object({
+  name: z.string().min(1, "must not be empty"),
+  apiEndpoint: z.string().url("must be a URL"),
+  aliases: z.array(z.string().min(1, "must not be empty")).optional(),
+  group: z.string().min(1, "must not be empty").optional(),
+  tags: z.array(z.string().min(1, "must not be empty")).optional(),
+  permissions: z
+    .enum(PERMISSION_LEVELS as [DocumentPermission, ...DocumentPermission[]])
+    .optional(),
+  cacheTtlSeconds: nonNegative.optional(),
+}).strict();
+
+const apiKeySchema = z.object({
+  name: z.string().min(1, "must not be empty"),
+  key: z.string().min(1, "must not be empty"),
+  documents: z.array(z.string()).optional(),
+  tools: z.array(z.string()).optional(),
+}).strict();
+
+const indexSchema = z.object({
+  enabled: z.boolean().optional(),
+  path: z.string().optional(),
+  refreshIntervalSeconds: nonNegative.optional(),
+}).strict();
+
+/**
+ * Schema of config.json
+ *
+ * Every object is strict, so a misspelled field is reported instead of
+ * silently ignored.
+ */
+const configSchema = z
+  .object({
+    documents: z
+      .array(documentSchema, { required_error: "a documents array is required" })
+      .min(1, "at least one document is required"),
+    apiKeys: z.array(apiKeySchema).optional(),
+    oauth: z
+      .object({
+        enabled: z.boolean().optional(),
+        issuerUrl: z.string().url("must be a URL").optional(),
+        usersFile: z.string().optional(),
+        accessTokenTtlSeconds: positive.optional(),
+        refreshTokenTtlSeconds: positive.optional(),
+      })
+      .strict()
+      .optional(),
+    audit: z
+      .object({
+        enabled: z.boolean().optional(),
+        path: z.string().optional(),
+        maxBytes: positive.optional(),
+        maxFiles: nonNegative.optional(),
+        redactArguments: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+    searchIndex: indexSchema.optional(),
+    semanticSearch: indexSchema
+      .extend({
+        provider: z.string().optional(),
+        model: z.string().optional(),
+        maxWaitSeconds: nonNegative.optional(),
+      })
+      .optional(),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    // Only runs once everything above is valid
+    const names = new Set(config.documents.map((doc) => doc.name));
+    config.apiKeys?.forEach((apiKey, i) => {
+      apiKey.documents?.forEach((name, j) => {
+        if (!names.has(name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["apiKeys", i, "documents", j],
+            message: `unknown document "${name}"`,
+          });
+        }
+      });
+    });
+  });
+
+/**
+ * Format a JSON path like documents[0].apiEndpoint
+ *
+ * @param path - Keys and array indexes from the root
+ * @returns Readable path, "(root)" for the root itself
+ */
+export function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) {
+    return "(root)";
+  }
+  return path
+    .map((key, i) => (typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`))
+    .join("");
+}
+
+/**
+ * Get the fields the schema allows for the object at a path
+ *
+ * @param schema - Schema to look in
+ * @param path - Keys and array indexes from the schema's root
+ * @returns Field names, or none if the path doesn't lead to an object
+ */
+function getKnownFields(schema: z.ZodTypeAny, path: Array<string | number>): string[] {
+  if (schema instanceof z.ZodEffects) {
+    return getKnownFields(schema.innerType(), path);
+  }
+  if (schema instanceof z.ZodOptional) {
+    return getKnownFields(schema.unwrap(), path);
+  }
+  if (schema instanceof z.ZodArray) {
+    return getKnownFields(schema.element, path.slice(1));
+  }
+  if (schema instanceof z.ZodObject) {
+    if (path.length === 0) {
+      return Object.keys(schema.shape);
+    }
+    const field = schema.shape[path[0]];
+    return field ? getKnownFields(field, path.slice(1)) : [];
+  }
+  return [];
+}
+
+/**
+ * Report names listed twice in an array of named entries
+ *
+ * Checked on the raw config rather than in the schema, so duplicates are
+ * reported even when other entries are invalid.
+ *
+ * @param entries - Value of the array, as parsed
+ * @param key - Name of the array in the config
+ * @param kind - What the entries are, for error messages
+ * @param errors - Collected error messages by formatted path
+ */
+function checkUniqueNames(
+  entries: unknown,
+  key: string,
+  kind: string,
+  errors: Map<string, string>
+): void {
+  if (!Array.isArray(entries)) {
+    return;
+  }
+
+  const seen = new Set<string>();
+  entries.forEach((entry, i) => {
+    const name = entry?.name;
+    if (typeof name !== "string") {
+      return;
+    }
+    if (seen.has(name)) {
+      errors.set(formatPath([key, i, "name"]), `duplicate ${kind} name "${name}"`);
+    }
+    seen.add(name);
+  });
+}
+
+/**
+ * Report aliases that could also mean another document
+ *
+ * Names and aliases are compared ignoring case and spacing, the way
+ * tools match them.
+ *
+ * @param documents - Value of the documents array, as parsed
+ * @param errors - Collected error messages by formatted path
+ */
+function checkAliases(documents: unknown, errors: Map<string, string>): void {
+  if (!Array.isArray(documents)) {
+    return;
+  }
+
+  const owners = new Map<string, number>();
+  documents.forEach((doc, i) => {
+    if (typeof doc?.name === "string") owners.set(normalizeText(doc.name), i);
+  });
+
+  documents.forEach((doc, i) => {
+    if (!Array.isArray(doc?.aliases)) return;
+    doc.aliases.forEach((alias: unknown, j: number) => {
+      if (typeof alias !== "string") return;
+      const key = normalizeText(alias);
+      const owner = owners.get(key);
+      if (owner !== undefined && owner !== i) {
+        errors.set(
+          formatPath(["documents", i, "aliases", j]),
+          `alias "${alias}" is already used by document "${documents[owner].name}"`
+        );
+      }
+      owners.set(key, i);
+    });
+  });
+}
+
+/**
+ * Replace ${VAR} references in every string of a parsed config
+ *
+ * `${VAR:-fallback}` uses the fallback when VAR is unset or empty, and
+ * `$${` stands for a literal `${`. References to unset or empty variables
+ * without a fallback are reported as errors.
+ *
+ * @param value - Parsed JSON value
+ * @param path - Path of the value, for error messages
+ * @param errors - Collected error messages by formatted path
+ * @returns Value with references replaced
+ */
+function interpolate(
+  value: unknown,
+  path: Array<string | number>,
+  errors: Map<string, string>
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(
+      /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+      (match, name: string | undefined, fallback: string | undefined) => {
+        if (!name) {
+          return "${";
+        }
+        const env = process.env[name];
+        if (env) {
+          return env;
+        }
+        if (fallback !== undefined) {
+          return fallback;
+        }
+        errors.set(
+          formatPath(path),
+          `environment variable ${name} is ${env === undefined ? "not set" : "empty"}`
+        );
+        return match;
+      }
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolate(item, [...path, i], errors));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolate(item, [...path, key], errors)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Get the path of the config file
+ *
+ * CRAFT_CONFIG holds either the configuration itself as JSON (when it
+ * starts with "{") or the path of a config file, relative to the working
+ * directory. Without it, config.json in the project root is used.
+ *
+ * @returns Absolute path, or undefined if CRAFT_CONFIG holds the JSON itself
+ */
+export function getConfigPath(): string | undefined {
+  const configured = process.env.CRAFT_CONFIG?.trim();
+
+  if (configured?.startsWith("{")) {
+    return undefined;
+  }
+  return configured ? resolve(configured) : join(__dirname, "..", "config.json");
+}
+
+/**
+ * Read the configuration text from CRAFT_CONFIG or the config file
+ *
+ * @returns Source name and raw text
+ */
+export function readConfigSource(): ConfigSource {
+  const path = getConfigPath();
+
+  if (!path) {
+    return { name: "CRAFT_CONFIG", text: process.env.CRAFT_CONFIG!.trim() };
+  }
+  return { name: path, text: readFileSync(path, "utf-8") };
+}
+
+/**
+ * Parse and validate configuration text
+ *
+ * @param source - Where the text came from, and the text
+ * @returns Validated configuration
+ * @throws Error listing every problem found, each with its JSON path
+ */
+export function parseConfig(source: ConfigSource): Config {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source.text);
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration in ${source.name}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const errors = new Map<string, string>();
+  const interpolated = interpolate(raw, [], errors) as Record<string, unknown> | null;
+  checkUniqueNames(interpolated?.documents, "documents", "document", errors);
+  checkUniqueNames(interpolated?.apiKeys, "apiKeys", "API key", errors);
+  checkAliases(interpolated?.documents, errors);
+
+  const result = configSchema.safeParse(interpolated);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      // Each misspelled field gets its own line, with the closest known one
+      if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+        const fields = getKnownFields(configSchema, issue.path);
+        for (const key of issue.keys) {
+          const suggestion = rankMatches(key, fields, (field) => [field])[0];
+          errors.set(
+            formatPath([...issue.path, key]),
+            suggestion ? `unknown field, did you mean "${suggestion}"?` : "unknown field"
+          );
+        }
+        continue;
+      }
+
+      // A missing variable is reported once, not again as an invalid value
+      const path = formatPath(issue.path);
+      if (!errors.has(path)) errors.set(path, issue.message);
+    }
+  }
+
+  if (errors.size > 0 || !result.success) {
+    const lines = [...errors].map(([path, message]) => `  - ${path}: ${message}`);
+    throw new Error(`Invalid configuration in ${source.name}:\n${lines.join("\n")}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load, validate and prepare the configuration
+ *
+ * Used by every entry point. API keys are registered with the logger so
+ * they are never logged.
+ *
+ * @returns Validated configuration
+ * @throws Error if the configuration can't be read or is invalid
+ */
+export function loadConfig(): Config {
+  const config = parseConfig(readConfigSource());
+  redactApiKeys(config);
+  return config;
+}
+
+/**
+ * Reload the configuration when its file changes or on SIGHUP
+ *
+ * The file's directory is watched rather than the file itself, so editors
+ * that save by replacing the file are noticed too. A new configuration is
+ * only passed on if it is valid and differs from the current one;
+ * otherwise the problem is logged and the current configuration stays.
+ *
+ * @param current - Configuration in use
+ * @param onReload - Called with each new configuration
+ */
+export function watchConfig(current: Config, onReload: (config: Config) => void): void {
+  let loaded = JSON.stringify(current);
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = (reason: string) => {
+    let config: Config;
+    try {
+      config = loadConfig();
+    } catch (error) {
+      logger.error("Keeping the current configuration", {
+        reason,
+        error: error instanceof Error ? error.message : error,
+      });
+      return;
+    }
+
+    const serialized = JSON.stringify(config);
+    if (serialized === loaded) {
+      logger.debug("Configuration unchanged", { reason });
+      return;
+    }
+
+    loaded = serialized;
+    logger.info("Reloaded configuration", { reason, documents: config.documents.length });
+    onReload(config);
+  };
+
+  const path = getConfigPath();
+  if (path) {
+    const name = basename(path);
+    try {
+      watch(dirname(path), { persistent: false }, (_event, filename) => {
+        if (filename !== name) return;
+        clearTimeout(timer);
+        timer = setTimeout(() => reload("file changed"), RELOAD_DEBOUNCE_MS);
+      }).on("error", (error) => {
+        logger.warn("Stopped watching the configuration file", { error });
+      });
+    } catch (error) {
+      logger.warn("Can't watch the configuration file; use SIGHUP to reload", { error });
+    }
+  }
+
+  process.on("SIGHUP", () => reload("SIGHUP"));
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosError } from "axios";
+import { AxiosError } from "axios";
 import type {
   Block,
   BlockFetchParams,
@@ -6,41 +6,94 @@ import type {
   SearchParams,
   SearchResponse,
   SearchResult,
+  InsertBlocksParams,
+  UpdateBlocksParams,
+  DeleteBlocksParams,
+  BlockMutationResponse,
+  CacheOptions,
 } from "./types.js";
+import { requestWithRetry } from "./resilience.js";
+import { responseCache, createCacheKey, getCacheTtlMs } from "./cache.js";
+
+/**
+ * Convert an axios failure into a readable error string
+ *
+ * @param error - Error thrown by axios
+ * @returns Upstream response body if present, otherwise the error message
+ */
+function formatError(error: unknown): string {
+  const axiosError = error as AxiosError;
+  return axiosError.response?.data
+    ? JSON.stringify(axiosError.response.data)
+    : axiosError.message || "Unknown error occurred";
+}
+
+/**
+ * Extract block IDs from a Craft write response
+ *
+ * The API answers with either `{ items: Block[] }`, a bare array of blocks
+ * or a single block, depending on the endpoint.
+ *
+ * @param data - Response body from a write endpoint
+ * @returns IDs of the blocks contained in the response
+ */
+function extractBlockIds(data: any): string[] {
+  const items = Array.isArray(data) ? data : data?.items ?? (data ? [data] : []);
+  return items
+    .map((item: Block | string) => (typeof item === "string" ? item : item?.id))
+    .filter((id: unknown): id is string => typeof id === "string");
+}
 
 /**
  * Fetches blocks from a Craft document API
  *
+ * Successful responses are served from the response cache while fresh.
+ *
  * @param apiEndpoint - The base URL of the Craft API
  * @param params - Optional parameters for filtering blocks
+ * @param cache - Optional caching options (per-document TTL)
  * @returns Promise with blocks data or error
  */
 export async function fetchBlocks(
   apiEndpoint: string,
-  params?: BlockFetchParams
+  params?: BlockFetchParams,
+  cache?: CacheOptions
 ): Promise<BlocksResponse> {
+  const requestParams = {
+    id: params?.id,
+    maxDepth: params?.maxDepth,
+    fetchMetadata: params?.fetchMetadata,
+  };
+  const cacheKey = createCacheKey(apiEndpoint, "/blocks", requestParams);
+  const cached = responseCache.get<BlocksResponse>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
   try {
     const url = `${apiEndpoint}/blocks`;
-    const response = await axios.get<Block | Block[]>(url, {
-      params: {
-        id: params?.id,
-        maxDepth: params?.maxDepth,
-        fetchMetadata: params?.fetchMetadata,
-      },
-      timeout: 30000,
+    const response = await requestWithRetry<Block | Block[]>(apiEndpoint, {
+      method: "GET",
+      url,
+      params: requestParams,
     });
 
-    return {
+    const result: BlocksResponse = {
       success: true,
       data: response.data,
     };
+    responseCache.set(
+      cacheKey,
+      result,
+      getCacheTtlMs(cache?.ttlSeconds),
+      apiEndpoint
+    );
+    return result;
   } catch (error) {
-    const axiosError = error as AxiosError;
     return {
       success: false,
-      error: axiosError.response?.data
-        ? JSON.stringify(axiosError.response.data)
-        : axiosError.message || "Unknown error occurred",
+      error: formatError(error),
     };
   }
 }
@@ -48,24 +101,37 @@ export async function fetchBlocks(
 /**
  * Searches for blocks in a Craft document API
  *
+ * Successful responses are served from the response cache while fresh.
+ *
  * @param apiEndpoint - The base URL of the Craft API
  * @param searchParams - Search parameters including pattern and options
+ * @param cache - Optional caching options (per-document TTL)
  * @returns Promise with search results or error
  */
 export async function searchBlocks(
   apiEndpoint: string,
-  searchParams: SearchParams
+  searchParams: SearchParams,
+  cache?: CacheOptions
 ): Promise<SearchResponse> {
+  const requestParams = {
+    pattern: searchParams.pattern,
+    caseSensitive: searchParams.caseSensitive,
+    beforeBlockCount: searchParams.beforeBlockCount,
+    afterBlockCount: searchParams.afterBlockCount,
+  };
+  const cacheKey = createCacheKey(apiEndpoint, "/blocks/search", requestParams);
+  const cached = responseCache.get<SearchResponse>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
   try {
     const url = `${apiEndpoint}/blocks/search`;
-    const response = await axios.get<Block[]>(url, {
-      params: {
-        pattern: searchParams.pattern,
-        caseSensitive: searchParams.caseSensitive,
-        beforeBlockCount: searchParams.beforeBlockCount,
-        afterBlockCount: searchParams.afterBlockCount,
-      },
-      timeout: 30000,
+    const response = await requestWithRetry<Block[]>(apiEndpoint, {
+      method: "GET",
+      url,
+      params: requestParams,
     });
 
     // Transform results to include proper structure
@@ -75,17 +141,140 @@ export async function searchBlocks(
         }))
       : [];
 
-    return {
+    const result: SearchResponse = {
       success: true,
       results,
     };
+    responseCache.set(
+      cacheKey,
+      result,
+      getCacheTtlMs(cache?.ttlSeconds),
+      apiEndpoint
+    );
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      error: formatError(error),
+    };
+  }
+}
+
+/**
+ * Inserts new blocks into a Craft document
+ *
+ * Invalidates cached responses for the document.
+ *
+ * @param apiEndpoint - The base URL of the Craft API
+ * @param params - Blocks to insert and where to insert them
+ * @returns Promise with the IDs of the created blocks or error
+ */
+export async function insertBlocks(
+  apiEndpoint: string,
+  params: InsertBlocksParams
+): Promise<BlockMutationResponse> {
+  try {
+    const url = `${apiEndpoint}/blocks`;
+    const response = await requestWithRetry(apiEndpoint, {
+      method: "POST",
+      url,
+      data: {
+        blocks: params.blocks,
+        position: {
+          position: params.position ?? "end",
+          pageId: params.pageId,
+        },
+      },
+    });
+
+    return {
+      success: true,
+      blockIds: extractBlockIds(response.data),
+    };
   } catch (error) {
-    const axiosError = error as AxiosError;
     return {
       success: false,
-      error: axiosError.response?.data
-        ? JSON.stringify(axiosError.response.data)
-        : axiosError.message || "Unknown error occurred",
+      error: formatError(error),
     };
+  } finally {
+    // Even a failed write may have partially applied
+    responseCache.invalidateEndpoint(apiEndpoint);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Updates the content of existing blocks in a Craft document
+ *
+ * Invalidates cached responses for the document.
+ *
+ * @param apiEndpoint - The base URL of the Craft API
+ * @param params - Blocks to update, each identified by its ID
+ * @returns Promise with the IDs of the updated blocks or error
+ */
+export async function updateBlocks(
+  apiEndpoint: string,
+  params: UpdateBlocksParams
+): Promise<BlockMutationResponse> {
+  try {
+    const url = `${apiEndpoint}/blocks`;
+    const response = await requestWithRetry(apiEndpoint, {
+      method: "PUT",
+      url,
+      data: { blocks: params.blocks },
+    });
+
+    const blockIds = extractBlockIds(response.data);
+
+    return {
+      success: true,
+      blockIds:
+        blockIds.length > 0 ? blockIds : params.blocks.map((b) => b.id),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: formatError(error),
+    };
+  } finally {
+    // Even a failed write may have partially applied
+    responseCache.invalidateEndpoint(apiEndpoint);
+  }
+}
+
+/**
+ * Deletes blocks from a Craft document
+ *
+ * Invalidates cached responses for the document.
+ *
+ * @param apiEndpoint - The base URL of the Craft API
+ * @param params - IDs of the blocks to delete
+ * @returns Promise with the IDs of the deleted blocks or error
+ */
+export async function deleteBlocks(
+  apiEndpoint: string,
+  params: DeleteBlocksParams
+): Promise<BlockMutationResponse> {
+  try {
+    const url = `${apiEndpoint}/blocks`;
+    const response = await requestWithRetry(apiEndpoint, {
+      method: "DELETE",
+      url,
+      data: { blockIds: params.blockIds },
+    });
+
+    const blockIds = extractBlockIds(response.data);
+
+    return {
+      success: true,
+      blockIds: blockIds.length > 0 ? blockIds : params.blockIds,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: formatError(error),
+    };
+  } finally {
+    // Even a failed write may have partially applied
+    responseCache.invalidateEndpoint(apiEndpoint);
+  }
+}
@@ -0,0 +1,148 @@
+import type { DocumentConfig } from "./types.js";
+import { normalizeText, scoreMatches } from "./fuzzy.js";
+
+/**
+ * How a requested name was matched to a document
+ * - name: the configured name, exactly
+ * - alias: one of the document's aliases, exactly
+ * - normalized: the name or an alias, ignoring case and spacing
+ * - fuzzy: the only close match (prefix, word prefix, typo or substring)
+ */
+export type DocumentMatchKind = "name" | "alias" | "normalized" | "fuzzy";
+
+/**
+ * Outcome of resolving a requested document name
+ */
+export interface DocumentResolution {
+  doc?: DocumentConfig;
+  matchedBy?: DocumentMatchKind;
+  ambiguous?: boolean; // several documents matched equally well
+  suggestions: string[]; // best candidates, when no document was chosen
+}
+
+/**
+ * Criteria narrowing a multi-document tool to some documents (all optional;
+ * a document must meet every one given)
+ */
+export interface DocumentFilter {
+  documents?: string[]; // names, resolved like any document name
+  tags?: string[]; // documents with at least one of these tags
+  group?: string;
+}
+
+/**
+ * Lowest fuzzy score accepted without asking: a substring of a name or better
+ */
+const ACCEPT_SCORE = 40;
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Get the names a document can be addressed by
+ *
+ * @param doc - Document configuration
+ * @returns Configured name followed by its aliases
+ */
+export function getDocumentNames(doc: DocumentConfig): string[] {
+  return [doc.name, ...(doc.aliases ?? [])];
+}
+
+/**
+ * Find the document a caller means by a name
+ *
+ * The configured name and aliases win when given exactly, then when they
+ * match ignoring case and spacing. Failing that, a fuzzy match is
+ * accepted if exactly one document matches closely ("project docs" for
+ * "Project Documentation"); otherwise the best candidates are returned as
+ * suggestions. Tools that change a document pass `allowFuzzy` false, so a
+ * close match is only suggested and content never lands in a document the
+ * caller didn't name.
+ *
+ * @param documents - Documents to choose from
+ * @param requested - Name given by the caller
+ * @param allowFuzzy - Accept a single close match (default: true)
+ * @returns The document and how it matched, or suggestions
+ */
+export function resolveDocumentName(
+  documents: DocumentConfig[],
+  requested: string,
+  allowFuzzy = true
+): DocumentResolution {
+  const exact = documents.find((doc) => doc.name === requested);
+  if (exact) {
+    return { doc: exact, matchedBy: "name", suggestions: [] };
+  }
+
+  const alias = documents.find((doc) => doc.aliases?.includes(requested));
+  if (alias) {
+    return { doc: alias, matchedBy: "alias", suggestions: [] };
+  }
+
+  const key = normalizeText(requested);
+  const normalized = documents.filter((doc) =>
+    getDocumentNames(doc).some((name) => normalizeText(name) === key)
+  );
+  if (normalized.length === 1) {
+    return { doc: normalized[0], matchedBy: "normalized", suggestions: [] };
+  }
+
+  const matches = scoreMatches(requested, documents, getDocumentNames);
+  const close = matches.filter(({ score }) => score >= ACCEPT_SCORE);
+  if (allowFuzzy && normalized.length === 0 && close.length === 1) {
+    return { doc: close[0].item, matchedBy: "fuzzy", suggestions: [] };
+  }
+
+  return {
+    ambiguous: normalized.length > 1 || close.length > 1,
+    suggestions: matches.slice(0, MAX_SUGGESTIONS).map(({ item }) => item.name),
+  };
+}
+
+/**
+ * Describe a failed resolution for an error message
+ *
+ * @param requested - Name given by the caller
+ * @param resolution - Result of resolveDocumentName without a document
+ * @returns e.g. `Document "notes" not found. Did you mean "Meeting Notes" or "Notes Archive"?`
+ */
+export function describeUnresolved(requested: string, resolution: DocumentResolution): string {
+  const quoted = resolution.suggestions.map((name) => `"${name}"`);
+  if (quoted.length === 0) {
+    return `Document "${requested}" not found`;
+  }
+
+  const list =
+    quoted.length === 1
+      ? quoted[0]
+      : `${quoted.slice(0, -1).join(", ")} or ${quoted[quoted.length - 1]}`;
+  return resolution.ambiguous
+    ? `Document "${requested}" matches more than one document. Did you mean ${list}?`
+    : `Document "${requested}" not found. Did you mean ${list}?`;
+}
+
+/**
+ * Narrow documents to those a filter selects
+ *
+ * Tags and groups are compared ignoring case and spacing. Names in
+ * `documents` that don't resolve select nothing; tools check them first
+ * to report the error.
+ *
+ * @param documents - Documents to choose from
+ * @param filter - Names, tags and group to select
+ * @returns Selected documents, in configuration order
+ */
+export function filterDocuments(
+  documents: DocumentConfig[],
+  filter: DocumentFilter
+): DocumentConfig[] {
+  const named = filter.documents?.map((name) => resolveDocumentName(documents, name).doc);
+  const tags = filter.tags?.map(normalizeText);
+  const group = filter.group !== undefined ? normalizeText(filter.group) : undefined;
+
+  return documents.filter(
+    (doc) =>
+      (!named || named.includes(doc)) &&
+      (!tags || (doc.tags ?? []).some((tag) => tags.includes(normalizeText(tag)))) &&
+      (group === undefined || (doc.group !== undefined && normalizeText(doc.group) === group))
+  );
+}
@@ -0,0 +1,139 @@
+import type { SemanticSearchConfig } from "./types.js";
+
+/**
+ * Turns text into vectors for semantic search
+ *
+ * Implementations must return one vector per input text, all of the same
+ * length. Vectors don't need to be normalized.
+ */
+export interface EmbeddingProvider {
+  id: string; // provider and model; the vector index is rebuilt when it changes
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Creates a provider from the `semanticSearch` section of config.json
+ */
+export type EmbeddingProviderFactory = (
+  settings: SemanticSearchConfig
+) => EmbeddingProvider;
+
+const DEFAULT_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+/**
+ * Texts embedded per model call
+ */
+const BATCH_SIZE = 32;
+
+/**
+ * Embedding provider running a small sentence-transformers model on the CPU
+ * with transformers.js (ONNX Runtime)
+ *
+ * `@huggingface/transformers` is an optional dependency and is only loaded
+ * on first use. The model is downloaded once and cached by transformers.js.
+ */
+class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private extractor?: Promise<any>;
+
+  constructor(private readonly model: string) {
+    this.id = `transformers:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.load();
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const output = await extractor(texts.slice(i, i + BATCH_SIZE), {
+        pooling: "mean",
+        normalize: true,
+      });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+
+    return vectors;
+  }
+
+  private load(): Promise<any> {
+    this.extractor ??= (async () => {
+      // A variable specifier keeps tsc from requiring the optional package
+      const specifier = "@huggingface/transformers";
+      let transformers: any;
+      try {
+        transformers = await import(specifier);
+      } catch {
+        throw new Error(
+          "Semantic search needs the optional @huggingface/transformers package: npm install @huggingface/transformers"
+        );
+      }
+      return transformers.pipeline("feature-extraction", this.model, {
+        device: "cpu",
+        dtype: "q8",
+      });
+    })();
+
+    // Allow a retry after a failed load (e.g. no network for the download)
+    this.extractor.catch(() => {
+      this.extractor = undefined;
+    });
+
+    return this.extractor;
+  }
+}
+
+/**
+ * Embedding providers by name
+ */
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  ["transformers", (settings) => new TransformersEmbeddingProvider(settings.model ?? DEFAULT_MODEL)],
+]);
+
+/**
+ * Provider instances by provider and model
+ */
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Make an embedding provider selectable with `semanticSearch.provider`
+ *
+ * @param name - Provider name used in config.json
+ * @param factory - Creates the provider from the `semanticSearch` settings
+ */
+export function registerEmbeddingProvider(
+  name: string,
+  factory: EmbeddingProviderFactory
+): void {
+  providerFactories.set(name, factory);
+  for (const key of providers.keys()) {
+    if (key.startsWith(`${name}\0`)) {
+      providers.delete(key);
+    }
+  }
+}
+
+/**
+ * Get the embedding provider configured for semantic search
+ *
+ * @param settings - `semanticSearch` section of config.json
+ * @returns Shared provider instance
+ * @throws Error if the provider name is not registered
+ */
+export function getEmbeddingProvider(settings: SemanticSearchConfig = {}): EmbeddingProvider {
+  const name = settings.provider ?? "transformers";
+  const key = `${name}\0${settings.model ?? ""}`;
+
+  let provider = providers.get(key);
+  if (!provider) {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(
+        `Unknown embedding provider "${name}". Available: ${Array.from(providerFactories.keys()).join(", ")}`
+      );
+    }
+    provider = factory(settings);
+    providers.set(key, provider);
+  }
+
+  return provider;
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * A message sent on a stream, kept for replay
+ */
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  size: number; // serialized size in bytes
+}
+
+/**
+ * In-memory event store for Streamable HTTP resumability
+ *
+ * Keeps the most recent messages of one session so a client that lost its
+ * SSE stream can reconnect with `Last-Event-ID` and receive what it missed.
+ * Events are kept in send order; the oldest are dropped beyond `maxEvents`
+ * or once the stored messages add up to more than `maxBytes`. A message
+ * larger than `maxBytes` on its own is not stored.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private bytes = 0;
+
+  constructor(
+    private readonly maxEvents: number = getMaxEvents(),
+    private readonly maxBytes: number = getMaxBytes()
+  ) {}
+
+  /**
+   * Store a message sent on a stream
+   *
+   * @param streamId - Stream the message was sent on
+   * @param message - JSON-RPC message
+   * @returns ID of the stored event
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    const size = Buffer.byteLength(JSON.stringify(message), "utf8");
+
+    if (size > this.maxBytes) {
+      return eventId;
+    }
+
+    this.events.push({ eventId, streamId, message, size });
+    this.bytes += size;
+
+    let dropped = 0;
+    while (this.events.length - dropped > this.maxEvents || this.bytes > this.maxBytes) {
+      this.bytes -= this.events[dropped].size;
+      dropped++;
+    }
+    this.events.splice(0, dropped);
+
+    return eventId;
+  }
+
+  /**
+   * Drop every stored event, once the session has ended
+   */
+  clear(): void {
+    this.events = [];
+    this.bytes = 0;
+  }
+
+  /**
+   * Number and total size of the stored events
+   */
+  stats(): { events: number; bytes: number } {
+    return { events: this.events.length, bytes: this.bytes };
+  }
+
+  /**
+   * Look up the stream an event was sent on
+   *
+   * @param eventId - Event ID from `Last-Event-ID`
+   * @returns Stream ID, or undefined if the event is no longer stored
+   */
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  /**
+   * Send every event of a stream that came after the given one
+   *
+   * @param lastEventId - Last event the client received
+   * @param options - Callback that sends a replayed event
+   * @returns Stream ID of the replayed events
+   * @throws Error if the event is unknown or was already dropped
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.eventId === lastEventId);
+
+    if (index === -1) {
+      throw new Error(`Event ${lastEventId} is no longer available`);
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
+
+/**
+ * Read the replay buffer size from the environment
+ *
+ * @returns Maximum stored events per session (default: 1000)
+ */
+function getMaxEvents(): number {
+  return parseInt(process.env.MCP_EVENT_STORE_MAX_EVENTS || "1000", 10);
+}
+
+/**
+ * Read the replay buffer's size limit from the environment
+ *
+ * @returns Maximum bytes of stored messages per session (default: 5MB)
+ */
+function getMaxBytes(): number {
+  return parseInt(process.env.MCP_EVENT_STORE_MAX_BYTES || "5242880", 10);
+}
@@ -0,0 +1,143 @@
+/**
+ * Characters between the words of a name
+ */
+const WORD_SEPARATOR = /[\s\-_/]+/;
+
+/**
+ * Normalize text for matching: lower case, single spaces, no surrounding space
+ */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Count the single-character edits (insertions, deletions, substitutions
+ * and swaps of neighbours) that turn one string into another
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Check whether every character of the query appears in the text, in order
+ */
+function isSubsequence(query: string, text: string): boolean {
+  let i = 0;
+  for (const char of text) {
+    if (char === query[i]) i++;
+  }
+  return i === query.length;
+}
+
+/**
+ * Check whether each query word starts a word of the text, in order
+ *
+ * @param queryWords - Words typed by the user
+ * @param words - Words of the text
+ * @param withTypos - Allow one edit per four characters in each query word
+ */
+function matchesWords(queryWords: string[], words: string[], withTypos: boolean): boolean {
+  let next = 0;
+  for (const queryWord of queryWords) {
+    const maxEdits = withTypos ? Math.floor(queryWord.length / 4) : 0;
+    while (
+      next < words.length &&
+      editDistance(queryWord, words[next].slice(0, queryWord.length)) > maxEdits
+    ) {
+      next++;
+    }
+    if (next === words.length) return false;
+    next++;
+  }
+  return true;
+}
+
+/**
+ * An item and how well it matched
+ */
+export interface ScoredMatch<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Score how well typed text matches a candidate, ignoring case and spacing
+ *
+ * From best to worst: the same text, a prefix of the candidate, prefixes
+ * of its words ("proj doc"), the whole text with typos (one edit per four
+ * characters), prefixes of its words with typos ("project docs"), a
+ * substring, the characters in order ("projdoc"), and a prefix with typos.
+ *
+ * @param query - Text typed by the user
+ * @param candidate - Text to match against
+ * @returns Score from 1 to 100, or undefined if it doesn't match; an
+ *   empty query matches everything with a score of 1
+ */
+export function fuzzyScore(query: string, candidate: string): number | undefined {
+  const q = normalizeText(query);
+  const c = normalizeText(candidate);
+
+  if (!q) return 1;
+  if (c === q) return 100;
+  if (c.startsWith(q)) return 80;
+
+  const queryWords = q.split(WORD_SEPARATOR);
+  const words = c.split(WORD_SEPARATOR);
+  if (matchesWords(queryWords, words, false)) return 60;
+
+  const maxEdits = Math.floor(q.length / 4);
+  if (maxEdits > 0 && editDistance(q, c) <= maxEdits) return 50;
+  if (matchesWords(queryWords, words, true)) return 45;
+  if (c.includes(q)) return 40;
+  if (isSubsequence(q, c)) return 20;
+  if (maxEdits > 0 && editDistance(q, c.slice(0, q.length)) <= maxEdits) return 10;
+  return undefined;
+}
+
+/**
+ * Score items by how well typed text matches them
+ *
+ * @param query - Text typed by the user
+ * @param items - Items to score
+ * @param getTexts - Texts an item can be matched by (e.g. its name and aliases)
+ * @returns Matching items with their best score, best first; equally good
+ *   matches keep their order
+ */
+export function scoreMatches<T>(
+  query: string,
+  items: T[],
+  getTexts: (item: T) => string[]
+): ScoredMatch<T>[] {
+  return items
+    .map((item) => ({
+      item,
+      score: Math.max(0, ...getTexts(item).map((text) => fuzzyScore(query, text) ?? 0)),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Rank items by how well typed text matches them
+ *
+ * @param query - Text typed by the user
+ * @param items - Items to rank
+ * @param getTexts - Texts an item can be matched by (e.g. its name and aliases)
+ * @returns Matching items, best first; equally good matches keep their order
+ */
+export function rankMatches<T>(query: string, items: T[], getTexts: (item: T) => string[]): T[] {
+  return scoreMatches(query, items, getTexts).map(({ item }) => item);
+}
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+import { createInterface } from "readline";
+import { hashPassword } from "./passwords.js";
+
+const USAGE = `Usage: npm run hash-password
+
+Reads a password from standard input and prints its scrypt hash for the
+"passwordHash" field of the OAuth users file. The password is not taken as
+an argument so it stays out of the shell history.
+
+  echo -n 'change-me' | npm run --silent hash-password`;
+
+/**
+ * Read the first line of standard input
+ *
+ * @returns The line without its line break, or undefined if input is empty
+ */
+async function readLine(): Promise<string | undefined> {
+  if (process.stdin.isTTY) {
+    process.stderr.write("Password: ");
+  }
+
+  const lines = createInterface({ input: process.stdin, terminal: false });
+  for await (const line of lines) {
+    lines.close();
+    return line;
+  }
+  return undefined;
+}
+
+async function main() {
+  if (process.argv.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const password = await readLine();
+  if (!password) {
+    throw new Error("No password given on standard input");
+  }
+
+  console.log(await hashPassword(password));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(1);
+});
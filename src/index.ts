@@ -5,345 +5,225 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  ServerCapabilities,
 } from "@modelcontextprotocol/sdk/types.js";
 import dotenv from "dotenv";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
 import type { Config } from "./types.js";
+import { listTools, callTool, toCallToolResult } from "./registry.js";
+import { getSessionServers, startHttpServer } from "./server.js";
+import { Principal, isAuthEnabled } from "./auth.js";
+import { loadConfig, watchConfig } from "./config.js";
+import { getIssuerUrl, isOAuthEnabled } from "./oauth.js";
 import {
-  searchAllNotesSchema,
-  searchDocumentSchema,
-  readDocumentSchema,
-  readBlockSchema,
-} from "./types.js";
-import {
-  listDocuments,
-  searchAllNotes,
-  searchDocument,
-  readDocument,
-  readBlock,
-  truncateResponse,
-  calculateResponseSize,
-} from "./tools.js";
-import { startSSEServer } from "./server.js";
-
-// Load performance configuration from environment
-const MAX_RESPONSE_SIZE = parseInt(
-  process.env.MAX_RESPONSE_SIZE || "1048576",
-  10
-); // Default: 1MB
-
-// Load environment variables
-dotenv.config();
-
-// Get directory name for ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+  listResources,
+  listResourceTemplates,
+  readResource,
+  subscribeResource,
+  unsubscribeResource,
+} from "./resources.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import { complete } from "./completions.js";
+import { logger } from "./logger.js";
+
+// Load environment variables (quietly: stdout carries the stdio transport)
+dotenv.config({ quiet: true });
 
 /**
- * Load and validate configuration from config.json
- *
- * @returns Configuration object
+ * Capabilities of every server instance
  */
-function loadConfig(): Config {
-  try {
-    const configPath = join(__dirname, "..", "config.json");
-    const configData = readFileSync(configPath, "utf-8");
-    const config: Config = JSON.parse(configData);
-
-    if (!config.documents || !Array.isArray(config.documents)) {
-      throw new Error("Invalid config: documents array is required");
-    }
-
-    if (config.documents.length === 0) {
-      throw new Error("Invalid config: at least one document is required");
-    }
-
-    for (const doc of config.documents) {
-      if (!doc.name || !doc.apiEndpoint) {
-        throw new Error(
-          "Invalid config: each document must have name and apiEndpoint"
-        );
-      }
-    }
-
-    return config;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error("Failed to load config.json:", error.message);
-    }
-    process.exit(1);
-  }
-}
+const SERVER_CAPABILITIES: ServerCapabilities = {
+  tools: { listChanged: true },
+  resources: { subscribe: true, listChanged: true },
+  prompts: { listChanged: true },
+  completions: {},
+};
 
 /**
  * Create and configure the MCP server
  *
- * @param config - Application configuration
+ * Handlers read the configuration through `getConfig` on every request,
+ * so a reloaded configuration applies to open sessions too.
+ *
+ * @param getConfig - Returns the current configuration
+ * @param principal - Caller of this session, limiting its documents and tools
  * @returns Configured MCP server
  */
-function createMCPServer(config: Config): Server {
+function createMCPServer(getConfig: () => Config, principal?: Principal): Server {
   const server = new Server(
     {
       name: "craft-wrapper",
       version: "1.0.0",
     },
     {
-      capabilities: {
-        tools: {},
-      },
+      capabilities: SERVER_CAPABILITIES,
     }
   );
 
   // Handle tools/list requests
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        {
-          name: "list_documents",
-          description:
-            "List all available Craft documents configured in the server",
-          inputSchema: {
-            type: "object",
-            properties: {},
-          },
-        },
-        {
-          name: "search_all_notes",
-          description:
-            "Search across all configured Craft documents. Returns aggregated results with document name context. Gracefully handles failures from individual documents.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description: "Search query pattern",
-              },
-              caseSensitive: {
-                type: "boolean",
-                description:
-                  "Whether search is case-sensitive (default: false)",
-              },
-            },
-            required: ["query"],
-          },
-        },
-        {
-          name: "search_document",
-          description:
-            "Search within a specific Craft document by name. Returns matching blocks with context.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: {
-                type: "string",
-                description: "Name of the document to search",
-              },
-              query: {
-                type: "string",
-                description: "Search query pattern",
-              },
-              caseSensitive: {
-                type: "boolean",
-                description:
-                  "Whether search is case-sensitive (default: false)",
-              },
-            },
-            required: ["documentName", "query"],
-          },
-        },
-        {
-          name: "read_document",
-          description:
-            "Read the entire structure of a Craft document, including all blocks and their hierarchy",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: {
-                type: "string",
-                description: "Name of the document to read",
-              },
-              maxDepth: {
-                type: "number",
-                description:
-                  "Maximum depth of block hierarchy to fetch (optional)",
-              },
-            },
-            required: ["documentName"],
-          },
-        },
-        {
-          name: "read_block",
-          description:
-            "Read a specific block from a Craft document by its ID",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: {
-                type: "string",
-                description: "Name of the document containing the block",
-              },
-              blockId: {
-                type: "string",
-                description: "ID of the block to read",
-              },
-            },
-            required: ["documentName", "blockId"],
-          },
-        },
-      ],
+      tools: listTools(getConfig(), principal),
     };
   });
 
   // Handle tools/call requests
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
-    const startTime = Date.now();
-
-    try {
-      let result: any;
-
-      switch (name) {
-        case "list_documents":
-          result = await listDocuments(config);
-          break;
+    return toCallToolResult(
+      await callTool(getConfig(), name, args, { principal, sessionId: extra.sessionId })
+    );
+  });
 
-        case "search_all_notes": {
-          const parsed = searchAllNotesSchema.parse(args);
-          result = await searchAllNotes(
-            config,
-            parsed.query,
-            parsed.caseSensitive
-          );
-          break;
-        }
+  // Every readable document is a craft:// resource
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listResources(getConfig(), principal),
+    };
+  });
 
-        case "search_document": {
-          const parsed = searchDocumentSchema.parse(args);
-          result = await searchDocument(
-            config,
-            parsed.documentName,
-            parsed.query,
-            parsed.caseSensitive
-          );
-          break;
-        }
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: listResourceTemplates(),
+    };
+  });
 
-        case "read_document": {
-          const parsed = readDocumentSchema.parse(args);
-          result = await readDocument(
-            config,
-            parsed.documentName,
-            parsed.maxDepth
-          );
-          break;
-        }
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    return readResource(getConfig(), request.params.uri, {
+      principal,
+      sessionId: extra.sessionId,
+    });
+  });
 
-        case "read_block": {
-          const parsed = readBlockSchema.parse(args);
-          result = await readBlock(
-            config,
-            parsed.documentName,
-            parsed.blockId
-          );
-          break;
-        }
+  // Subscribed documents are polled for changes
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    await subscribeResource(server, getConfig, request.params.uri, {
+      principal,
+      sessionId: extra.sessionId,
+    });
+    return {};
+  });
 
-        default:
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  error: `Unknown tool: ${name}`,
-                }),
-              },
-            ],
-            isError: true,
-          };
-      }
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribeResource(server, request.params.uri);
+    return {};
+  });
 
-      // Apply response size limits and truncation if needed
-      const { data: truncatedResult, metadata } = truncateResponse(
-        result,
-        MAX_RESPONSE_SIZE
-      );
+  // Built-in prompts and those from prompts.json
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: await listPrompts(principal),
+    };
+  });
 
-      // Log performance metrics to stderr
-      const executionTime = Date.now() - startTime;
-      const timestamp = new Date().toISOString();
-      console.error(
-        `[PERF] ${timestamp} ${name} ${executionTime}ms size=${metadata.size}bytes${metadata.truncated ? ' (truncated)' : ''}`
-      );
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(getConfig(), name, args, { principal, sessionId: extra.sessionId });
+  });
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(truncatedResult),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error:
-                error instanceof Error ? error.message : "Unknown error",
-            }),
-          },
-        ],
-        isError: true,
-      };
-    }
+  // Document names and block IDs for prompt and resource template arguments
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    return complete(getConfig(), request.params, { principal, sessionId: extra.sessionId });
   });
 
   return server;
 }
 
+/**
+ * Tell connected clients that the tool, resource and prompt lists may have changed
+ *
+ * @param servers - Servers of the open sessions
+ */
+function notifyListChanged(servers: Server[]): void {
+  for (const server of servers) {
+    server.sendToolListChanged().catch((error) => {
+      logger.warn("Failed to send tools/list_changed", { error });
+    });
+    if (SERVER_CAPABILITIES.resources?.listChanged) {
+      server.sendResourceListChanged().catch((error) => {
+        logger.warn("Failed to send resources/list_changed", { error });
+      });
+    }
+    if (SERVER_CAPABILITIES.prompts?.listChanged) {
+      server.sendPromptListChanged().catch((error) => {
+        logger.warn("Failed to send prompts/list_changed", { error });
+      });
+    }
+  }
+}
+
 /**
  * Main entry point
  */
 async function main() {
   // Load configuration
-  const config = loadConfig();
-
-  console.error(
-    `Loaded configuration with ${config.documents.length} document(s)`
-  );
+  let config: Config;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : "Failed to load configuration");
+    process.exit(1);
+  }
 
-  // Create MCP server
-  const server = createMCPServer(config);
+  logger.info("Loaded configuration", { documents: config.documents.length });
+  const getConfig = () => config;
 
   // Determine transport mode (prioritize command-line args over env vars)
   const args = process.argv.slice(2);
+  const useHttp = args.includes("--http");
   const useSSE = args.includes("--sse") || args.includes("-s");
-  const transport = useSSE ? "sse" : (process.env.MCP_TRANSPORT || "stdio");
-
-  if (transport === "sse") {
-    // SSE mode
+  const transport = useHttp
+    ? "http"
+    : useSSE
+      ? "sse"
+      : (process.env.MCP_TRANSPORT || "stdio");
+
+  if (transport === "http" || transport === "sse") {
+    // HTTP mode: Streamable HTTP on /mcp, plus SSE on /sse for older clients
     const port = parseInt(process.env.PORT || "3000", 10);
-    const apiKey = process.env.MCP_API_KEY;
-
-    if (apiKey) {
-      console.error("Authentication enabled");
+    if (isAuthEnabled(config)) {
+      logger.info("Authentication enabled");
+    }
+    if (isOAuthEnabled(config)) {
+      logger.info("OAuth enabled", { issuer: getIssuerUrl(config).href });
     }
 
-    await startSSEServer(server, port, apiKey);
+    // Each session gets its own server instance
+    await startHttpServer(
+      (principal) => createMCPServer(getConfig, principal),
+      port,
+      getConfig
+    );
+
+    // Swap in a changed config.json; every open session is notified
+    watchConfig(config, (reloaded) => {
+      config = reloaded;
+      notifyListChanged(getSessionServers());
+    });
   } else {
     // Stdio mode
-    console.error("Starting Craft MCP Server in stdio mode...");
+    logger.info("Starting Craft MCP Server in stdio mode");
+    const server = createMCPServer(getConfig);
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error("Craft MCP Server running on stdio");
+    logger.info("Craft MCP Server running on stdio");
+
+    watchConfig(config, (reloaded) => {
+      config = reloaded;
+      notifyListChanged([server]);
+    });
   }
 }
 
 // Run main function
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  logger.error("Fatal error", { error });
   process.exit(1);
 });
\ No newline at end of file
@@ -1,58 +1,46 @@
 import { Handler, APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
 import type { Config } from "./types.js";
+import { listTools, callTool, toCallToolResult } from "./registry.js";
+import { Principal, authenticate, getPrincipalId } from "./auth.js";
+import { loadConfig } from "./config.js";
 import {
-  searchAllNotesSchema,
-  searchDocumentSchema,
-  readDocumentSchema,
-  readBlockSchema,
-} from "./types.js";
-import {
-  listDocuments,
-  searchAllNotes,
-  searchDocument,
-  readDocument,
-  readBlock,
-} from "./tools.js";
+  createRequestId,
+  findRequestIdHeader,
+  logger,
+  runWithRequestId,
+} from "./logger.js";
 import { IncomingMessage, ServerResponse } from "http";
 import { Readable, Writable } from "stream";
 
-// Get directory name for ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Global config and server (reused across warm invocations)
+// Global config and servers per caller (reused across warm invocations)
 let config: Config | null = null;
-let mcpServer: Server | null = null;
+const mcpServers = new Map<string, Server>();
 
 /**
- * Load configuration from config.json
+ * Load configuration once per container
  */
-function loadConfig(): Config {
+function getConfig(): Config {
   if (!config) {
     try {
-      const configPath = join(__dirname, "..", "config.json");
-      const configData = readFileSync(configPath, "utf-8");
-      config = JSON.parse(configData);
-      console.log(`Loaded config with ${config!.documents.length} documents`);
+      config = loadConfig();
+      logger.info("Loaded configuration", { documents: config.documents.length });
     } catch (error) {
-      console.error("Failed to load config.json:", error);
+      logger.error("Failed to load configuration", { error });
       throw error;
     }
   }
-  return config!;
+  return config;
 }
 
 /**
- * Create and configure the MCP server
+ * Create and configure the MCP server for a caller
  */
-function createMCPServer(cfg: Config): Server {
-  if (mcpServer) {
-    return mcpServer;
+function createMCPServer(cfg: Config, principal: Principal): Server {
+  const existing = mcpServers.get(getPrincipalId(principal));
+  if (existing) {
+    return existing;
   }
 
   const server = new Server(
@@ -70,118 +58,17 @@ function createMCPServer(cfg: Config): Server {
   // Register tools/list handler
   server.setRequestHandler("tools/list" as any, async () => {
     return {
-      tools: [
-        {
-          name: "list_documents",
-          description: "List all available Craft documents configured in the server",
-          inputSchema: {
-            type: "object",
-            properties: {},
-          },
-        },
-        {
-          name: "search_all_notes",
-          description: "Search across all configured Craft documents. Returns aggregated results with document name context.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: { type: "string", description: "Search query pattern" },
-              caseSensitive: { type: "boolean", description: "Whether search is case-sensitive (default: false)" },
-            },
-            required: ["query"],
-          },
-        },
-        {
-          name: "search_document",
-          description: "Search within a specific Craft document by name.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: { type: "string", description: "Name of the document to search" },
-              query: { type: "string", description: "Search query pattern" },
-              caseSensitive: { type: "boolean", description: "Whether search is case-sensitive (default: false)" },
-            },
-            required: ["documentName", "query"],
-          },
-        },
-        {
-          name: "read_document",
-          description: "Read the entire structure of a Craft document",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: { type: "string", description: "Name of the document to read" },
-              maxDepth: { type: "number", description: "Maximum depth of block hierarchy to fetch (optional)" },
-            },
-            required: ["documentName"],
-          },
-        },
-        {
-          name: "read_block",
-          description: "Read a specific block from a Craft document by its ID",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentName: { type: "string", description: "Name of the document containing the block" },
-              blockId: { type: "string", description: "ID of the block to read" },
-            },
-            required: ["documentName", "blockId"],
-          },
-        },
-      ],
+      tools: listTools(cfg, principal),
     };
   });
 
   // Register tools/call handler
   server.setRequestHandler("tools/call" as any, async (request: any) => {
     const { name, arguments: args } = request.params;
-
-    try {
-      let result: any;
-
-      switch (name) {
-        case "list_documents":
-          result = await listDocuments(cfg);
-          break;
-        case "search_all_notes": {
-          const parsed = searchAllNotesSchema.parse(args);
-          result = await searchAllNotes(cfg, parsed.query, parsed.caseSensitive);
-          break;
-        }
-        case "search_document": {
-          const parsed = searchDocumentSchema.parse(args);
-          result = await searchDocument(cfg, parsed.documentName, parsed.query, parsed.caseSensitive);
-          break;
-        }
-        case "read_document": {
-          const parsed = readDocumentSchema.parse(args);
-          result = await readDocument(cfg, parsed.documentName, parsed.maxDepth);
-          break;
-        }
-        case "read_block": {
-          const parsed = readBlockSchema.parse(args);
-          result = await readBlock(cfg, parsed.documentName, parsed.blockId);
-          break;
-        }
-        default:
-          return {
-            content: [{ type: "text", text: JSON.stringify({ error: `Unknown tool: ${name}` }) }],
-            isError: true,
-          };
-      }
-
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-      };
-    } catch (error) {
-      return {
-        content: [{ type: "text", text: JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }) }],
-        isError: true,
-      };
-    }
+    return toCallToolResult(await callTool(cfg, name, args, { principal }));
   });
 
-  mcpServer = server;
+  mcpServers.set(getPrincipalId(principal), server);
   return server;
 }
 
@@ -259,14 +146,51 @@ function createMockHttpObjects(event: APIGatewayProxyEvent): {
 
 /**
  * Lambda handler
+ *
+ * Each invocation runs under the caller's X-Request-Id, or the Lambda
+ * request ID, which is returned in the X-Request-Id response header.
+ */
+export const handler: Handler = async (
+  event: APIGatewayProxyEvent,
+  context: any
+): Promise<APIGatewayProxyResult> => {
+  const requestId = createRequestId(
+    findRequestIdHeader(event.headers) ?? context?.awsRequestId
+  );
+  const result = await runWithRequestId(requestId, () => handleEvent(event, requestId));
+  return { ...result, headers: { ...result.headers, "X-Request-Id": requestId } };
+};
+
+/**
+ * Pass one API Gateway event to the caller's MCP server
+ *
+ * @param event - API Gateway event
+ * @param requestId - ID of this request, for error responses
+ * @returns API Gateway response
  */
-export const handler: Handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  console.log(`Lambda invocation: ${event.httpMethod} ${event.path}`);
+async function handleEvent(
+  event: APIGatewayProxyEvent,
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  logger.info("Lambda invocation", { method: event.httpMethod, path: event.path });
 
   try {
-    // Load config and create server
-    const cfg = loadConfig();
-    const server = createMCPServer(cfg);
+    // Load config and identify the caller
+    const cfg = getConfig();
+    const auth = authenticate(cfg, event.headers, event.queryStringParameters);
+
+    if (!auth.principal) {
+      return {
+        statusCode: 401,
+        headers: {
+          "Content-Type": "application/json",
+          "WWW-Authenticate": 'Bearer realm="craft-mcp"',
+        },
+        body: JSON.stringify({ error: auth.error, requestId }),
+      };
+    }
+
+    const server = createMCPServer(cfg, auth.principal);
 
     // Create HTTP mocks
     const { req, res, promise } = createMockHttpObjects(event);
@@ -284,14 +208,15 @@ export const handler: Handler = async (event: APIGatewayProxyEvent): Promise<API
     // Wait for response
     return await promise;
   } catch (error) {
-    console.error("Lambda handler error:", error);
+    logger.error("Lambda handler error", { error });
     return {
       statusCode: 500,
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         error: "Internal server error",
         message: error instanceof Error ? error.message : "Unknown error",
+        requestId,
       }),
     };
   }
-};
+}
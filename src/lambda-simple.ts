@@ -1,100 +1,167 @@
 import { Handler, APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { readFileSync } from "fs";
-import { join } from "path";
 import type { Config } from "./types.js";
+import { callTool } from "./registry.js";
+import { Principal, authenticate } from "./auth.js";
+import { loadConfig } from "./config.js";
+import { getCircuitStates } from "./resilience.js";
+import { getCacheStats } from "./cache.js";
+import { getMetricsSummary } from "./metrics.js";
 import {
-  listDocuments,
-  searchAllNotes,
-  searchDocument,
-  readDocument,
-  readBlock,
-} from "./tools.js";
+  createRequestId,
+  findRequestIdHeader,
+  logger,
+  runWithRequestId,
+} from "./logger.js";
 
 // Global config (loaded once per Lambda container)
 let config: Config | null = null;
 
 /**
- * Load configuration from config.json
+ * Load configuration once per container
  */
-function loadConfig(): Config {
+function getConfig(): Config {
   if (!config) {
     try {
-      const configPath = join(__dirname, "..", "config.json");
-      const configData = readFileSync(configPath, "utf-8");
-      config = JSON.parse(configData);
-      console.log(`Loaded config with ${config!.documents.length} documents`);
+      config = loadConfig();
+      logger.info("Loaded configuration", { documents: config.documents.length });
     } catch (error) {
-      console.error("Failed to load config.json:", error);
+      logger.error("Failed to load configuration", { error });
       throw error;
     }
   }
-  return config!;
+  return config;
+}
+
+/**
+ * Run a tool through the shared registry and shape the HTTP response
+ *
+ * @param cfg - Application configuration
+ * @param principal - Authenticated caller
+ * @param name - Tool name
+ * @param args - Tool arguments collected from the route
+ * @param headers - Response headers
+ * @returns API Gateway response with the tool result as body (429 when rate limited)
+ */
+async function respondWithTool(
+  cfg: Config,
+  principal: Principal,
+  name: string,
+  args: Record<string, unknown>,
+  headers: Record<string, string>
+): Promise<APIGatewayProxyResult> {
+  const { result, isError } = await callTool(cfg, name, args, { principal });
+
+  if (isError && result.error === "rate_limited") {
+    return {
+      statusCode: 429,
+      headers: { ...headers, "Retry-After": String(result.retryAfterSeconds) },
+      body: JSON.stringify(result),
+    };
+  }
+
+  return {
+    statusCode: isError ? 400 : 200,
+    headers,
+    body: JSON.stringify(result),
+  };
 }
 
 /**
  * Lambda handler - Simple REST API
+ *
+ * Each invocation runs under the caller's X-Request-Id, or the Lambda
+ * request ID, which is returned in the X-Request-Id response header.
  */
 const handler: Handler = async (
-  event: any
+  event: any,
+  context: any
 ): Promise<APIGatewayProxyResult> => {
+  const requestId = createRequestId(
+    findRequestIdHeader(event.headers) ?? context?.awsRequestId
+  );
+  return runWithRequestId(requestId, () => handleEvent(event, requestId));
+};
+
+/**
+ * Route one API Gateway event
+ *
+ * @param event - API Gateway event (HTTP API v2 or REST API format)
+ * @param requestId - ID of this request, for responses
+ * @returns API Gateway response
+ */
+async function handleEvent(
+  event: any,
+  requestId: string
+): Promise<APIGatewayProxyResult> {
   // API Gateway HTTP API v2 uses different structure
   const path = event.rawPath || event.path || "/";
   const method = event.requestContext?.http?.method || event.httpMethod || "GET";
-  
-  console.log(`Request: ${method} ${path}`);
-  console.log(`RouteKey: ${event.routeKey}`);
-  console.log(`Event keys: ${Object.keys(event).join(", ")}`);
+
+  logger.info("Request", { method, path, routeKey: event.routeKey });
 
   // Load config on first invocation
-  const cfg = loadConfig();
+  const cfg = getConfig();
 
   // CORS headers
   const headers = {
     "Content-Type": "application/json",
     "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Request-Id",
+    "Access-Control-Expose-Headers": "X-Request-Id",
+    "X-Request-Id": requestId,
   };
 
   try {
-    // Health check
+    const auth = authenticate(cfg, event.headers, event.queryStringParameters);
+
+    // Health check: details only for callers who could use the API
     if (path === "/health") {
+      const circuits = getCircuitStates();
+      const status = circuits.some((c) => c.state !== "closed") ? "degraded" : "ok";
       return {
         statusCode: 200,
         headers,
-        body: JSON.stringify({ status: "ok", documents: cfg.documents.length }),
+        body: JSON.stringify(
+          auth.principal
+            ? {
+                status,
+                documents: cfg.documents.length,
+                circuits,
+                cache: getCacheStats(),
+                metrics: getMetricsSummary(cfg),
+              }
+            : { status }
+        ),
       };
     }
 
-    // List documents
-    if (path === "/documents" && method === "GET") {
-      const result = await listDocuments(cfg);
+    // Everything below needs an API key if any are configured
+    if (!auth.principal) {
       return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify(result),
+        statusCode: 401,
+        headers: { ...headers, "WWW-Authenticate": 'Bearer realm="craft-mcp"' },
+        body: JSON.stringify({ error: auth.error, requestId }),
       };
     }
+    const principal = auth.principal;
+
+    // List documents
+    if (path === "/documents" && method === "GET") {
+      return respondWithTool(cfg, principal, "list_documents", {}, headers);
+    }
 
-    // Search all notes
+    // Search all notes, or those selected by name, tag or group
     if (path === "/search" && method === "POST") {
       const body = JSON.parse(event.body || "{}");
-      const { query, caseSensitive } = body;
-      
-      if (!query) {
-        return {
-          statusCode: 400,
-          headers,
-          body: JSON.stringify({ error: "query parameter required" }),
-        };
-      }
-
-      const result = await searchAllNotes(cfg, query, caseSensitive);
-      return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify(result),
-      };
+      const { query, caseSensitive, documents, tags, group } = body;
+      return respondWithTool(
+        cfg,
+        principal,
+        "search_all_notes",
+        { query, caseSensitive, documents, tags, group },
+        headers
+      );
     }
 
     // Search specific document
@@ -102,21 +169,13 @@ const handler: Handler = async (
       const documentName = path.split("/")[2];
       const body = JSON.parse(event.body || "{}");
       const { query, caseSensitive } = body;
-
-      if (!query) {
-        return {
-          statusCode: 400,
-          headers,
-          body: JSON.stringify({ error: "query parameter required" }),
-        };
-      }
-
-      const result = await searchDocument(cfg, documentName, query, caseSensitive);
-      return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify(result),
-      };
+      return respondWithTool(
+        cfg,
+        principal,
+        "search_document",
+        { documentName, query, caseSensitive },
+        headers
+      );
     }
 
     // Read document
@@ -125,47 +184,84 @@ const handler: Handler = async (
       const maxDepth = event.queryStringParameters?.maxDepth 
         ? parseInt(event.queryStringParameters.maxDepth) 
         : undefined;
-
-      const result = await readDocument(cfg, documentName, maxDepth);
-      return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify(result),
-      };
+      return respondWithTool(
+        cfg,
+        principal,
+        "read_document",
+        { documentName, maxDepth },
+        headers
+      );
     }
 
     // Read block
     if (path.match(/^\/document\/[^/]+\/block\/[^/]+$/) && method === "GET") {
       const parts = path.split("/");
-      const documentName = parts[2];
-      const blockId = parts[4];
+      return respondWithTool(
+        cfg,
+        principal,
+        "read_block",
+        { documentName: parts[2], blockId: parts[4] },
+        headers
+      );
+    }
 
-      const result = await readBlock(cfg, documentName, blockId);
-      return {
-        statusCode: 200,
-        headers,
-        body: JSON.stringify(result),
-      };
+    // Append to document
+    if (path.match(/^\/document\/[^/]+\/blocks$/) && method === "POST") {
+      const documentName = path.split("/")[2];
+      const body = JSON.parse(event.body || "{}");
+      return respondWithTool(
+        cfg,
+        principal,
+        "append_to_document",
+        { ...body, documentName },
+        headers
+      );
+    }
+
+    // Update block
+    if (path.match(/^\/document\/[^/]+\/block\/[^/]+$/) && method === "PUT") {
+      const parts = path.split("/");
+      const body = JSON.parse(event.body || "{}");
+      return respondWithTool(
+        cfg,
+        principal,
+        "update_block",
+        { ...body, documentName: parts[2], blockId: parts[4] },
+        headers
+      );
+    }
+
+    // Delete block
+    if (path.match(/^\/document\/[^/]+\/block\/[^/]+$/) && method === "DELETE") {
+      const parts = path.split("/");
+      return respondWithTool(
+        cfg,
+        principal,
+        "delete_block",
+        { documentName: parts[2], blockId: parts[4] },
+        headers
+      );
     }
 
     // Not found
     return {
       statusCode: 404,
       headers,
-      body: JSON.stringify({ error: "Not found" }),
+      body: JSON.stringify({ error: "Not found", requestId }),
     };
   } catch (error) {
-    console.error("Handler error:", error);
+    logger.error("Handler error", { error });
     return {
       statusCode: 500,
       headers,
       body: JSON.stringify({
         error: "Internal server error",
         message: error instanceof Error ? error.message : "Unknown error",
+        requestId,
       }),
     };
   }
-};
+}
 
 // CommonJS export
 module.exports = { handler };
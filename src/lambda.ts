@@ -1,86 +1,74 @@
 import { Handler, APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
 import type { Config } from "./types.js";
+import { listTools, getTool, callTool } from "./registry.js";
+import { authenticate, isToolAllowed } from "./auth.js";
+import { loadConfig } from "./config.js";
+import { getCircuitStates } from "./resilience.js";
+import { getCacheStats } from "./cache.js";
+import { getMetricsSummary } from "./metrics.js";
 import {
-  searchAllNotesSchema,
-  searchDocumentSchema,
-  readDocumentSchema,
-  readBlockSchema,
-} from "./types.js";
-import {
-  listDocuments,
-  searchAllNotes,
-  searchDocument,
-  readDocument,
-  readBlock,
-} from "./tools.js";
-
-// Get directory name for ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+  createRequestId,
+  findRequestIdHeader,
+  logger,
+  runWithRequestId,
+} from "./logger.js";
 
 // Global config (reused across warm invocations)
 let config: Config | null = null;
 
 /**
- * Load and validate configuration from config.json
+ * Load configuration once per container
  */
-function loadConfig(): Config {
+function getConfig(): Config {
   if (config) return config;
 
   try {
-    const configPath = join(__dirname, "..", "config.json");
-    const configData = readFileSync(configPath, "utf-8");
-    config = JSON.parse(configData);
-
-    if (!config!.documents || !Array.isArray(config!.documents)) {
-      throw new Error("Invalid config: documents array is required");
-    }
-
-    if (config!.documents.length === 0) {
-      throw new Error("Invalid config: at least one document is required");
-    }
-
-    for (const doc of config!.documents) {
-      if (!doc.name || !doc.apiEndpoint) {
-        throw new Error(
-          "Invalid config: each document must have name and apiEndpoint"
-        );
-      }
-    }
-
-    console.log(`Loaded configuration with ${config!.documents.length} documents`);
-    return config!;
+    config = loadConfig();
+    logger.info("Loaded configuration", { documents: config.documents.length });
+    return config;
   } catch (error) {
-    console.error("Failed to load config.json:", error);
+    logger.error("Failed to load configuration", { error });
     throw error;
   }
 }
 
 /**
  * Lambda handler function - Simple REST API for MCP tools
+ *
+ * Each invocation runs under the caller's X-Request-Id, or the Lambda
+ * request ID, which is returned in the X-Request-Id response header.
  */
 export const handler: Handler = async (
   event: any, // HTTP API v2 format
   context: any
 ): Promise<any> => {
+  const requestId = createRequestId(
+    findRequestIdHeader(event.headers) ?? context?.awsRequestId
+  );
+  return runWithRequestId(requestId, () => handleEvent(event, requestId));
+};
+
+/**
+ * Route one API Gateway event
+ *
+ * @param event - API Gateway event (HTTP API v2 or REST API format)
+ * @param requestId - ID of this request, for responses
+ * @returns API Gateway response
+ */
+async function handleEvent(event: any, requestId: string): Promise<any> {
   // HTTP API v2 uses different property names
   const path = event.rawPath || event.path || '/';
   const method = event.requestContext?.http?.method || event.httpMethod || 'GET';
-  
-  console.log("Request:", {
-    path,
-    method,
-    requestId: context.requestId,
-  });
+
+  logger.info("Request", { path, method });
 
   const headers = {
     "Content-Type": "application/json",
     "Access-Control-Allow-Origin": "*",
     "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Request-Id",
+    "Access-Control-Expose-Headers": "X-Request-Id",
+    "X-Request-Id": requestId,
   };
 
   // Handle OPTIONS for CORS
@@ -94,7 +82,7 @@ export const handler: Handler = async (
 
   // Initialize config
   try {
-    loadConfig();
+    getConfig();
   } catch (error) {
     return {
       statusCode: 500,
@@ -102,22 +90,44 @@ export const handler: Handler = async (
       body: JSON.stringify({
         error: "Configuration error",
         message: error instanceof Error ? error.message : "Unknown error",
+        requestId,
       }),
     };
   }
 
-  // Health check
+  const auth = authenticate(config!, event.headers, event.queryStringParameters);
+
+  // Health check: details only for callers who could use the API
   if (path === "/health") {
+    const circuits = getCircuitStates();
+    const status = circuits.some((c) => c.state !== "closed") ? "degraded" : "ok";
     return {
       statusCode: 200,
       headers,
-      body: JSON.stringify({
-        status: "ok",
-        service: "craft-mcp-wrapper",
-        documentsConfigured: config!.documents.length,
-      }),
+      body: JSON.stringify(
+        auth.principal
+          ? {
+              status,
+              service: "craft-mcp-wrapper",
+              documentsConfigured: config!.documents.length,
+              circuits,
+              cache: getCacheStats(),
+              metrics: getMetricsSummary(config!),
+            }
+          : { status }
+      ),
+    };
+  }
+
+  // Everything below needs an API key if any are configured
+  if (!auth.principal) {
+    return {
+      statusCode: 401,
+      headers: { ...headers, "WWW-Authenticate": 'Bearer realm="craft-mcp"' },
+      body: JSON.stringify({ error: auth.error, requestId }),
     };
   }
+  const principal = auth.principal;
 
   // List tools
   if (path === "/tools" && method === "GET") {
@@ -125,33 +135,7 @@ export const handler: Handler = async (
       statusCode: 200,
       headers,
       body: JSON.stringify({
-        tools: [
-          {
-            name: "list_documents",
-            description:
-              "List all available Craft documents configured in the server",
-          },
-          {
-            name: "search_all_notes",
-            description:
-              "Search across all configured Craft documents. Returns aggregated results with document name context.",
-          },
-          {
-            name: "search_document",
-            description:
-              "Search within a specific Craft document by name. Returns matching blocks with context.",
-          },
-          {
-            name: "read_document",
-            description:
-              "Read the entire structure of a Craft document, including all blocks and their hierarchy",
-          },
-          {
-            name: "read_block",
-            description:
-              "Read a specific block from a Craft document by its ID",
-          },
-        ],
+        tools: listTools(config!, principal),
       }),
     };
   }
@@ -162,62 +146,39 @@ export const handler: Handler = async (
       const body = JSON.parse(event.body || "{}");
       const { name, arguments: args } = body;
 
-      let result: any;
-
-      switch (name) {
-        case "list_documents":
-          result = await listDocuments(config!);
-          break;
-
-        case "search_all_notes": {
-          const parsed = searchAllNotesSchema.parse(args);
-          result = await searchAllNotes(
-            config!,
-            parsed.query,
-            parsed.caseSensitive
-          );
-          break;
-        }
-
-        case "search_document": {
-          const parsed = searchDocumentSchema.parse(args);
-          result = await searchDocument(
-            config!,
-            parsed.documentName,
-            parsed.query,
-            parsed.caseSensitive
-          );
-          break;
-        }
-
-        case "read_document": {
-          const parsed = readDocumentSchema.parse(args);
-          result = await readDocument(
-            config!,
-            parsed.documentName,
-            parsed.maxDepth
-          );
-          break;
-        }
-
-        case "read_block": {
-          const parsed = readBlockSchema.parse(args);
-          result = await readBlock(
-            config!,
-            parsed.documentName,
-            parsed.blockId
-          );
-          break;
-        }
-
-        default:
-          return {
-            statusCode: 400,
-            headers,
-            body: JSON.stringify({
-              error: `Unknown tool: ${name}`,
-            }),
-          };
+      // Unknown and disallowed tools are rejected (and audited) by callTool
+      const { result, isError } = await callTool(config!, name, args, { principal });
+
+      if (isError && !getTool(name, config!)) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify(result),
+        };
+      }
+
+      if (isError && !isToolAllowed(principal, name)) {
+        return {
+          statusCode: 403,
+          headers,
+          body: JSON.stringify(result),
+        };
+      }
+
+      if (isError && result.error === "rate_limited") {
+        return {
+          statusCode: 429,
+          headers: { ...headers, "Retry-After": String(result.retryAfterSeconds) },
+          body: JSON.stringify(result),
+        };
+      }
+
+      if (isError) {
+        return {
+          statusCode: 500,
+          headers,
+          body: JSON.stringify(result),
+        };
       }
 
       return {
@@ -229,12 +190,13 @@ export const handler: Handler = async (
         }),
       };
     } catch (error) {
-      console.error("Tool execution error:", error);
+      logger.error("Tool execution error", { error });
       return {
         statusCode: 500,
         headers,
         body: JSON.stringify({
           error: error instanceof Error ? error.message : "Unknown error",
+          requestId,
         }),
       };
     }
@@ -247,6 +209,7 @@ export const handler: Handler = async (
     body: JSON.stringify({
       error: "Not found",
       path,
+      requestId,
     }),
   };
-};
+}
@@ -1,15 +1,15 @@
-import { readFileSync } from "fs";
-import type { Config } from "./src/types.js";
+import type { Config } from "./types.js";
+import { loadConfig } from "./config.js";
 import {
   listDocuments,
   searchAllNotes,
   searchDocument,
   readDocument,
   readBlock,
-} from "./src/tools.js";
+} from "./tools.js";
 
 // Load config
-const config: Config = JSON.parse(readFileSync("./config.json", "utf-8"));
+const config: Config = loadConfig();
 
 let passedTests = 0;
 let failedTests = 0;
@@ -0,0 +1,225 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Extra fields of a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Field names whose values are always replaced (compared case-insensitively)
+ */
+const DEFAULT_REDACTED_FIELDS = [
+  "authorization",
+  "api_key",
+  "apikey",
+  "key",
+  "password",
+  "secret",
+  "client_secret",
+  "token",
+  "access_token",
+  "refresh_token",
+];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Request ID of the MCP request being handled
+ */
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Secret values (API keys) to mask wherever they appear
+ */
+const secrets = new Set<string>();
+
+/**
+ * Read the minimum level to log from the environment
+ *
+ * @returns LOG_LEVEL, default "info"
+ */
+function getLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : "info";
+}
+
+/**
+ * Read the field names to redact from the environment
+ *
+ * @returns Default names plus those in LOG_REDACT_FIELDS (comma-separated)
+ */
+function getRedactedFields(): Set<string> {
+  const extra = (process.env.LOG_REDACT_FIELDS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return new Set([...DEFAULT_REDACTED_FIELDS, ...extra]);
+}
+
+/**
+ * Register secret values that must never be logged, such as API keys
+ *
+ * @param values - Secrets; empty values are ignored
+ */
+export function addSecrets(values: Array<string | undefined>): void {
+  for (const value of values) {
+    if (value) secrets.add(value);
+  }
+}
+
+/**
+ * Mask share-link tokens, bearer credentials and registered secrets in text
+ *
+ * @param text - Text to clean
+ * @returns Text safe to log
+ */
+export function redactText(text: string): string {
+  let result = text
+    .replace(/\/links\/([^/\s"'?#]+)/g, (_, token: string) => `/links/***${token.slice(-4)}`)
+    .replace(/\bBearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`);
+
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Redact a value for logging, recursing into arrays and objects
+ *
+ * @param value - Value to clean
+ * @param fields - Field names whose values are replaced
+ * @returns Value safe to log
+ */
+function redact(value: unknown, fields: Set<string>): unknown {
+  if (typeof value === "string") {
+    return redactText(value);
+  }
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [
+        name,
+        fields.has(name.toLowerCase()) ? REDACTED : redact(item, fields),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Redact a value the way log fields are redacted
+ *
+ * @param value - Value to clean
+ * @param extraFields - Field names to replace on top of the logger's own
+ * @returns Value safe to write out
+ */
+export function redactFields(value: unknown, extraFields: string[] = []): unknown {
+  const fields = getRedactedFields();
+  for (const name of extraFields) {
+    fields.add(name.toLowerCase());
+  }
+  return redact(value, fields);
+}
+
+/**
+ * Get the ID of the MCP request being handled
+ *
+ * @returns Request ID, or undefined outside of a request
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Pick the ID for a new request
+ *
+ * A caller-supplied ID (X-Request-Id) is kept if it looks sane, so logs
+ * can be correlated with the client's.
+ *
+ * @param incoming - ID sent by the caller, if any
+ * @returns Request ID
+ */
+export function createRequestId(incoming?: unknown): string {
+  return typeof incoming === "string" && /^[\w.:-]{1,128}$/.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+/**
+ * Find the X-Request-Id header of a Lambda event, whatever its casing
+ *
+ * @param headers - Event headers
+ * @returns Header value, if sent
+ */
+export function findRequestIdHeader(
+  headers: Record<string, string | undefined> | null | undefined
+): string | undefined {
+  return Object.entries(headers ?? {}).find(
+    ([name]) => name.toLowerCase() === "x-request-id"
+  )?.[1];
+}
+
+/**
+ * Run a function with a request ID attached to everything it logs
+ *
+ * @param requestId - Request ID
+ * @param fn - Function to run
+ * @returns The function's result
+ */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * Write a log line as JSON to stderr (stdout belongs to the stdio transport)
+ */
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (LEVELS[level] < LEVELS[getLogLevel()]) {
+    return;
+  }
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: redactText(message),
+    requestId: getRequestId(),
+    ...(fields ? (redact(fields, getRedactedFields()) as LogFields) : {}),
+  };
+  process.stderr.write(JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Leveled JSON logger
+ *
+ * Every line carries the current request ID. Share-link tokens, bearer
+ * credentials, registered secrets and fields named like credentials
+ * (see LOG_REDACT_FIELDS) are masked.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
@@ -0,0 +1,325 @@
+import type { Config } from "./types.js";
+import { getCacheStats } from "./cache.js";
+import { redactEndpoint } from "./resilience.js";
+
+/**
+ * Outcome of a tool call as counted in metrics
+ */
+export type ToolCallStatus = "success" | "error" | "rate_limited";
+
+/**
+ * Number of active sessions by transport
+ */
+export interface SessionCounts {
+  sse: number;
+  http: number;
+}
+
+/**
+ * Metrics as reported by the Lambda /health route
+ */
+export interface MetricsSummary {
+  tools: Record<
+    string,
+    {
+      calls: number;
+      errors: number;
+      rateLimited: number;
+      truncated: number;
+      avgDurationMs: number;
+      responseBytes: number;
+    }
+  >;
+  upstream: Record<
+    string,
+    { requests: number; errors: number; avgLatencyMs: number }
+  >;
+}
+
+/**
+ * Histogram with fixed bucket bounds (upper bounds, ascending)
+ */
+class Histogram {
+  readonly counts: number[];
+  sum = 0;
+  count = 0;
+
+  constructor(readonly bounds: number[]) {
+    this.counts = bounds.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+  }
+}
+
+/**
+ * Bucket bounds for durations in seconds
+ */
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Bucket bounds for response sizes in bytes
+ */
+const SIZE_BUCKETS = [1024, 10_240, 102_400, 524_288, 1_048_576, 5_242_880];
+
+/**
+ * Tool call counts by "tool,status,truncated"
+ */
+const toolCalls = new Map<string, number>();
+
+/**
+ * Tool call durations by tool
+ */
+const toolDurations = new Map<string, Histogram>();
+
+/**
+ * Response sizes by tool
+ */
+const responseSizes = new Map<string, Histogram>();
+
+/**
+ * Upstream request latencies by Craft endpoint
+ */
+const upstreamLatencies = new Map<string, Histogram>();
+
+/**
+ * Upstream request counts by "endpoint,status"
+ */
+const upstreamRequests = new Map<string, number>();
+
+/**
+ * Get a histogram from a map, creating it on first use
+ */
+function getHistogram(
+  map: Map<string, Histogram>,
+  key: string,
+  bounds: number[]
+): Histogram {
+  let histogram = map.get(key);
+  if (!histogram) {
+    histogram = new Histogram(bounds);
+    map.set(key, histogram);
+  }
+  return histogram;
+}
+
+/**
+ * Record a finished tool call
+ *
+ * @param tool - Tool name
+ * @param status - Outcome of the call
+ * @param truncated - Whether the response was truncated
+ * @param durationMs - Time taken in milliseconds
+ * @param bytes - Response size in bytes
+ */
+export function recordToolCall(
+  tool: string,
+  status: ToolCallStatus,
+  truncated: boolean,
+  durationMs: number,
+  bytes: number
+): void {
+  const key = `${tool},${status},${truncated}`;
+  toolCalls.set(key, (toolCalls.get(key) ?? 0) + 1);
+  getHistogram(toolDurations, tool, DURATION_BUCKETS).observe(durationMs / 1000);
+  getHistogram(responseSizes, tool, SIZE_BUCKETS).observe(bytes);
+}
+
+/**
+ * Record one HTTP request to a Craft endpoint (each retry counts)
+ *
+ * @param endpoint - Craft API base URL
+ * @param status - HTTP status, or "error" for network failures and timeouts
+ * @param durationMs - Time taken in milliseconds
+ */
+export function recordUpstreamRequest(
+  endpoint: string,
+  status: number | "error",
+  durationMs: number
+): void {
+  const key = `${endpoint},${status}`;
+  upstreamRequests.set(key, (upstreamRequests.get(key) ?? 0) + 1);
+  getHistogram(upstreamLatencies, endpoint, DURATION_BUCKETS).observe(durationMs / 1000);
+}
+
+/**
+ * Name the document an endpoint belongs to
+ *
+ * @param config - Application configuration
+ * @param endpoint - Craft API base URL
+ * @returns Document name, or the endpoint with its share token masked
+ */
+function documentLabel(config: Config, endpoint: string): string {
+  return (
+    config.documents.find((doc) => doc.apiEndpoint === endpoint)?.name ??
+    redactEndpoint(endpoint)
+  );
+}
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Format a label set
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Append a metric's HELP and TYPE lines
+ */
+function header(lines: string[], name: string, type: string, help: string): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+}
+
+/**
+ * Append the series of a histogram
+ */
+function histogramLines(
+  lines: string[],
+  name: string,
+  labels: Record<string, string>,
+  histogram: Histogram
+): void {
+  histogram.bounds.forEach((bound, i) => {
+    lines.push(
+      `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${histogram.counts[i]}`
+    );
+  });
+  lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${histogram.count}`);
+  lines.push(`${name}_sum${formatLabels(labels)} ${histogram.sum}`);
+  lines.push(`${name}_count${formatLabels(labels)} ${histogram.count}`);
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ *
+ * @param config - Application configuration, to label endpoints by document
+ * @param sessions - Active sessions, if this process serves any
+ * @returns Metrics text for a /metrics response
+ */
+export function renderMetrics(config: Config, sessions?: SessionCounts): string {
+  const lines: string[] = [];
+
+  header(lines, "craft_mcp_tool_calls_total", "counter", "Tool calls by tool, status and truncation");
+  for (const [key, count] of toolCalls) {
+    const [tool, status, truncated] = key.split(",");
+    lines.push(`craft_mcp_tool_calls_total${formatLabels({ tool, status, truncated })} ${count}`);
+  }
+
+  header(lines, "craft_mcp_tool_call_duration_seconds", "histogram", "Tool call duration");
+  for (const [tool, histogram] of toolDurations) {
+    histogramLines(lines, "craft_mcp_tool_call_duration_seconds", { tool }, histogram);
+  }
+
+  header(lines, "craft_mcp_response_bytes", "histogram", "Tool response size in bytes");
+  for (const [tool, histogram] of responseSizes) {
+    histogramLines(lines, "craft_mcp_response_bytes", { tool }, histogram);
+  }
+
+  header(lines, "craft_mcp_upstream_requests_total", "counter", "Craft API requests by document and HTTP status");
+  for (const [key, count] of upstreamRequests) {
+    const separator = key.lastIndexOf(",");
+    const document = documentLabel(config, key.slice(0, separator));
+    const status = key.slice(separator + 1);
+    lines.push(`craft_mcp_upstream_requests_total${formatLabels({ document, status })} ${count}`);
+  }
+
+  header(lines, "craft_mcp_upstream_request_duration_seconds", "histogram", "Craft API request latency by document");
+  for (const [endpoint, histogram] of upstreamLatencies) {
+    histogramLines(
+      lines,
+      "craft_mcp_upstream_request_duration_seconds",
+      { document: documentLabel(config, endpoint) },
+      histogram
+    );
+  }
+
+  const cache = getCacheStats();
+  header(lines, "craft_mcp_cache_hits_total", "counter", "Response cache hits");
+  lines.push(`craft_mcp_cache_hits_total ${cache.hits}`);
+  header(lines, "craft_mcp_cache_misses_total", "counter", "Response cache misses");
+  lines.push(`craft_mcp_cache_misses_total ${cache.misses}`);
+  header(lines, "craft_mcp_cache_evictions_total", "counter", "Response cache evictions");
+  lines.push(`craft_mcp_cache_evictions_total ${cache.evictions}`);
+  header(lines, "craft_mcp_cache_bytes", "gauge", "Size of cached responses in bytes");
+  lines.push(`craft_mcp_cache_bytes ${cache.bytes}`);
+
+  if (sessions) {
+    header(lines, "craft_mcp_active_sessions", "gauge", "Active client sessions by transport");
+    lines.push(`craft_mcp_active_sessions${formatLabels({ transport: "sse" })} ${sessions.sse}`);
+    lines.push(`craft_mcp_active_sessions${formatLabels({ transport: "http" })} ${sessions.http}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Summarize the metrics as JSON
+ *
+ * Lambda containers are short-lived and can't be scraped, so the Lambda
+ * /health route reports this summary of the current container instead.
+ *
+ * @param config - Application configuration, to label endpoints by document
+ * @returns Per-tool and per-document totals
+ */
+export function getMetricsSummary(config: Config): MetricsSummary {
+  const summary: MetricsSummary = { tools: {}, upstream: {} };
+
+  for (const [key, count] of toolCalls) {
+    const [tool, status, truncated] = key.split(",");
+    const entry = (summary.tools[tool] ??= {
+      calls: 0,
+      errors: 0,
+      rateLimited: 0,
+      truncated: 0,
+      avgDurationMs: 0,
+      responseBytes: 0,
+    });
+    entry.calls += count;
+    if (status === "error") entry.errors += count;
+    if (status === "rate_limited") entry.rateLimited += count;
+    if (truncated === "true") entry.truncated += count;
+  }
+
+  for (const [tool, entry] of Object.entries(summary.tools)) {
+    const durations = toolDurations.get(tool);
+    entry.avgDurationMs = durations?.count
+      ? Math.round((durations.sum / durations.count) * 1000)
+      : 0;
+    entry.responseBytes = responseSizes.get(tool)?.sum ?? 0;
+  }
+
+  for (const [key, count] of upstreamRequests) {
+    const separator = key.lastIndexOf(",");
+    const endpoint = key.slice(0, separator);
+    const status = key.slice(separator + 1);
+    const entry = (summary.upstream[documentLabel(config, endpoint)] ??= {
+      requests: 0,
+      errors: 0,
+      avgLatencyMs: 0,
+    });
+    entry.requests += count;
+    if (status === "error" || Number(status) >= 400) entry.errors += count;
+
+    const latencies = upstreamLatencies.get(endpoint);
+    entry.avgLatencyMs = latencies?.count
+      ? Math.round((latencies.sum / latencies.count) * 1000)
+      : 0;
+  }
+
+  return summary;
+}
@@ -0,0 +1,708 @@
+import express, { Request, Response, Router } from "express";
+import { randomBytes } from "crypto";
+import { readFile } from "fs/promises";
+import { dirname, isAbsolute, join } from "path";
+import { fileURLToPath } from "url";
+import type { OAuthServerProvider, AuthorizationParams } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  InvalidGrantError,
+  InvalidScopeError,
+  InvalidTargetError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import {
+  mcpAuthRouter,
+  getOAuthProtectedResourceMetadataUrl,
+} from "@modelcontextprotocol/sdk/server/auth/router.js";
+import type { Config, OAuthUserConfig } from "./types.js";
+import {
+  AuthResult,
+  Principal,
+  authenticate,
+  extractCredential,
+  isAuthEnabled,
+} from "./auth.js";
+import { RateLimitOptions, TokenBucket } from "./rate-limit.js";
+import { formatPath } from "./config.js";
+import { rejectPassword, verifyPassword } from "./passwords.js";
+import { logger } from "./logger.js";
+
+// Get directory name for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Scopes the built-in authorization server grants
+ */
+const SCOPES = ["mcp"];
+
+/**
+ * How long an authorization code or a pending login stays valid
+ */
+const CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * An authorization request waiting for the user to sign in
+ */
+interface PendingLogin {
+  client: OAuthClientInformationFull;
+  params: AuthorizationParams;
+  expiresAt: number;
+}
+
+/**
+ * An issued authorization code, exchanged once for tokens
+ */
+interface AuthorizationCode {
+  clientId: string;
+  params: AuthorizationParams;
+  username: string;
+  expiresAt: number;
+}
+
+/**
+ * An issued access token
+ */
+interface AccessToken {
+  clientId: string;
+  scopes: string[];
+  resource?: URL;
+  principal: Principal;
+  expiresAt: number; // seconds since the epoch
+}
+
+/**
+ * An issued refresh token
+ */
+interface RefreshToken {
+  clientId: string;
+  scopes: string[];
+  resource?: URL;
+  username: string;
+  expiresAt: number;
+}
+
+/**
+ * Check whether the built-in OAuth authorization server is enabled
+ *
+ * @param config - Application configuration
+ * @returns True if `oauth.enabled` is set
+ */
+export function isOAuthEnabled(config: Config): boolean {
+  return config.oauth?.enabled === true;
+}
+
+/**
+ * Get the public URL of the authorization server (and MCP server)
+ *
+ * @param config - Application configuration
+ * @returns `oauth.issuerUrl`, OAUTH_ISSUER_URL, or http://localhost:PORT
+ */
+export function getIssuerUrl(config: Config): URL {
+  return new URL(
+    config.oauth?.issuerUrl ||
+      process.env.OAUTH_ISSUER_URL ||
+      `http://localhost:${process.env.PORT || "3000"}`
+  );
+}
+
+/**
+ * Read the sign-in attempt limits from the environment
+ *
+ * The same limit applies to each client IP and to each username.
+ *
+ * @returns Attempts allowed at once (OAUTH_LOGIN_BURST, default 5) and
+ *   regained per minute (OAUTH_LOGIN_PER_MINUTE, default 1)
+ */
+export function getLoginRateLimitOptions(): RateLimitOptions {
+  return {
+    burst: parseInt(process.env.OAUTH_LOGIN_BURST || "5", 10),
+    perMinute: parseInt(process.env.OAUTH_LOGIN_PER_MINUTE || "1", 10),
+  };
+}
+
+/**
+ * Find document names in the OAuth users file that aren't configured
+ *
+ * @param users - Users from the users file
+ * @param config - Configuration with the documents
+ * @returns Error messages by JSON path, e.g. users[0].documents[1]
+ */
+export function checkUserDocuments(
+  users: OAuthUserConfig[],
+  config: Config
+): Map<string, string> {
+  const names = new Set(config.documents.map((doc) => doc.name));
+  const errors = new Map<string, string>();
+
+  users.forEach((user, i) => {
+    user.documents?.forEach((name, j) => {
+      if (!names.has(name)) {
+        errors.set(formatPath(["users", i, "documents", j]), `unknown document "${name}"`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Create a random, URL-safe token
+ */
+function createToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Minimal OAuth 2.1 authorization server for the HTTP transports
+ *
+ * Clients register dynamically, send the user to /authorize with a PKCE
+ * challenge, and exchange the resulting code at /token (the SDK's handlers
+ * validate the requests and the PKCE verifier). Users sign in with a
+ * username and password from a local users file; their tokens carry the
+ * same document and tool restrictions as an API key.
+ *
+ * Clients, codes and tokens are kept in memory, so they are lost on restart
+ * and clients have to register and sign in again. Sign-in attempts are
+ * limited per client IP and per username.
+ */
+export class CraftOAuthProvider implements OAuthServerProvider {
+  private clients = new Map<string, OAuthClientInformationFull>();
+  private pendingLogins = new Map<string, PendingLogin>();
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, AccessToken>();
+  private refreshTokens = new Map<string, RefreshToken>();
+  private loginAttempts = new Map<string, TokenBucket>(); // by `ip:` or `user:`
+
+  private readonly getConfig: () => Config;
+  private readonly usersFile: string;
+  private readonly accessTokenTtlSeconds: number;
+  private readonly refreshTokenTtlSeconds: number;
+  readonly issuerUrl: URL;
+
+  /**
+   * @param config - Application configuration with the `oauth` section
+   * @param getConfig - Returns the current configuration, for the documents
+   *   users may be given
+   */
+  constructor(config: Config, getConfig: () => Config = () => config) {
+    this.getConfig = getConfig;
+    const usersFile = config.oauth?.usersFile ?? "oauth-users.json";
+    this.usersFile = isAbsolute(usersFile) ? usersFile : join(__dirname, "..", usersFile);
+    this.accessTokenTtlSeconds = config.oauth?.accessTokenTtlSeconds ?? 3600;
+    this.refreshTokenTtlSeconds = config.oauth?.refreshTokenTtlSeconds ?? 30 * 24 * 3600;
+    this.issuerUrl = getIssuerUrl(config);
+  }
+
+  get clientsStore(): OAuthRegisteredClientsStore {
+    return {
+      getClient: (clientId) => this.clients.get(clientId),
+      // The SDK's /register handler has already assigned the client ID
+      registerClient: (client) => {
+        const registered = client as OAuthClientInformationFull;
+        this.clients.set(registered.client_id, registered);
+        return registered;
+      },
+    };
+  }
+
+  /**
+   * Show the sign-in form for an authorization request
+   *
+   * The request is kept server-side; the form only carries its ID, so the
+   * redirect URI and PKCE challenge can't be changed while signing in.
+   */
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: Response
+  ): Promise<void> {
+    const scopes = params.scopes?.length ? params.scopes : SCOPES;
+    const unknown = scopes.filter((scope) => !SCOPES.includes(scope));
+    if (unknown.length > 0) {
+      throw new InvalidScopeError(`Unsupported scope: ${unknown.join(" ")}`);
+    }
+
+    if (params.resource && params.resource.origin !== this.issuerUrl.origin) {
+      throw new InvalidTargetError(`Unknown resource: ${params.resource.href}`);
+    }
+
+    this.prune();
+    const loginId = createToken();
+    this.pendingLogins.set(loginId, {
+      client,
+      params: { ...params, scopes },
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    res.type("html").send(renderLoginPage(loginId, client));
+  }
+
+  /**
+   * Check the submitted credentials and redirect back to the client
+   *
+   * Wrong credentials show the form again, and so do attempts over the
+   * limit (with a 429); an unknown or expired login answers 400, since
+   * there is no verified redirect URI to report it to.
+   */
+  async handleLogin(req: Request, res: Response): Promise<void> {
+    res.setHeader("Cache-Control", "no-store");
+    const { login: loginId, username, password } = req.body ?? {};
+    const pending = typeof loginId === "string" ? this.pendingLogins.get(loginId) : undefined;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      res.status(400).type("html").send(
+        "<p>This sign-in request expired. Start again from your MCP client.</p>"
+      );
+      return;
+    }
+
+    const waitMs = this.chargeLoginAttempt(req.ip ?? "unknown", username);
+    if (waitMs > 0) {
+      const retryAfterSeconds = Number.isFinite(waitMs) ? Math.max(Math.ceil(waitMs / 1000), 1) : 60;
+      logger.warn("Too many sign-in attempts", { ip: req.ip, username });
+      res
+        .status(429)
+        .setHeader("Retry-After", String(retryAfterSeconds))
+        .type("html")
+        .send(
+          renderLoginPage(
+            loginId,
+            pending.client,
+            `Too many sign-in attempts; try again in ${retryAfterSeconds}s`
+          )
+        );
+      return;
+    }
+
+    const user =
+      typeof username === "string" && typeof password === "string"
+        ? await this.checkCredentials(username, password)
+        : undefined;
+
+    if (!user) {
+      res
+        .status(401)
+        .type("html")
+        .send(renderLoginPage(loginId, pending.client, "Invalid username or password"));
+      return;
+    }
+
+    this.pendingLogins.delete(loginId);
+    const code = createToken();
+    this.codes.set(code, {
+      clientId: pending.client.client_id,
+      params: pending.params,
+      username: user.username,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+
+    const redirect = new URL(pending.params.redirectUri);
+    redirect.searchParams.set("code", code);
+    if (pending.params.state !== undefined) {
+      redirect.searchParams.set("state", pending.params.state);
+    }
+    res.redirect(302, redirect.href);
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string
+  ): Promise<string> {
+    return this.getCode(client, authorizationCode).params.codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string
+  ): Promise<OAuthTokens> {
+    const code = this.getCode(client, authorizationCode);
+    this.codes.delete(authorizationCode);
+
+    if (redirectUri !== undefined && redirectUri !== code.params.redirectUri) {
+      throw new InvalidGrantError("redirect_uri does not match the authorization request");
+    }
+
+    const user = await this.findUser(code.username);
+    if (!user) {
+      throw new InvalidGrantError("User no longer exists");
+    }
+
+    return this.issueTokens(client.client_id, user, code.params.scopes ?? SCOPES, code.params.resource);
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[],
+    resource?: URL
+  ): Promise<OAuthTokens> {
+    const stored = this.refreshTokens.get(refreshToken);
+    if (!stored || stored.clientId !== client.client_id || stored.expiresAt < Date.now()) {
+      if (stored && stored.expiresAt < Date.now()) this.refreshTokens.delete(refreshToken);
+      throw new InvalidGrantError("Invalid or expired refresh token");
+    }
+
+    if (scopes?.some((scope) => !stored.scopes.includes(scope))) {
+      throw new InvalidScopeError("Requested scopes exceed the original grant");
+    }
+
+    if (resource && stored.resource && resource.href !== stored.resource.href) {
+      throw new InvalidTargetError("Resource does not match the original grant");
+    }
+
+    // Refresh tokens are rotated: the old one can't be used again
+    this.refreshTokens.delete(refreshToken);
+
+    // Re-read the user so removed users and changed restrictions take effect
+    const user = await this.findUser(stored.username);
+    if (!user) {
+      throw new InvalidGrantError("User no longer exists");
+    }
+
+    return this.issueTokens(client.client_id, user, scopes ?? stored.scopes, stored.resource);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const stored = this.accessTokens.get(token);
+    if (!stored || stored.expiresAt < Date.now() / 1000) {
+      this.accessTokens.delete(token);
+      throw new InvalidTokenError("Invalid or expired access token");
+    }
+
+    return {
+      token,
+      clientId: stored.clientId,
+      scopes: stored.scopes,
+      expiresAt: stored.expiresAt,
+      resource: stored.resource,
+      extra: { principal: stored.principal },
+    };
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest
+  ): Promise<void> {
+    const access = this.accessTokens.get(request.token);
+    if (access?.clientId === client.client_id) {
+      this.accessTokens.delete(request.token);
+    }
+
+    const refresh = this.refreshTokens.get(request.token);
+    if (refresh?.clientId === client.client_id) {
+      this.refreshTokens.delete(request.token);
+    }
+  }
+
+  /**
+   * Identify the caller holding an access token
+   *
+   * @param token - Bearer token from a request
+   * @returns The user's principal, or undefined if the token is not valid
+   */
+  async getPrincipal(token: string): Promise<Principal | undefined> {
+    try {
+      const info = await this.verifyAccessToken(token);
+      return info.extra?.principal as Principal;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Look up an unexpired authorization code issued to a client
+   */
+  private getCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string
+  ): AuthorizationCode {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.clientId !== client.client_id || code.expiresAt < Date.now()) {
+      throw new InvalidGrantError("Invalid or expired authorization code");
+    }
+    return code;
+  }
+
+  /**
+   * Issue an access token and a refresh token to a user
+   */
+  private issueTokens(
+    clientId: string,
+    user: OAuthUserConfig,
+    scopes: string[],
+    resource?: URL
+  ): OAuthTokens {
+    this.prune();
+
+    const accessToken = createToken();
+    const refreshToken = createToken();
+
+    this.accessTokens.set(accessToken, {
+      clientId,
+      scopes,
+      resource,
+      principal: {
+        kind: "oauth",
+        name: user.username,
+        documents: user.documents,
+        tools: user.tools,
+      },
+      expiresAt: Math.floor(Date.now() / 1000) + this.accessTokenTtlSeconds,
+    });
+    this.refreshTokens.set(refreshToken, {
+      clientId,
+      scopes,
+      resource,
+      username: user.username,
+      expiresAt: Date.now() + this.refreshTokenTtlSeconds * 1000,
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: this.accessTokenTtlSeconds,
+      scope: scopes.join(" "),
+      refresh_token: refreshToken,
+    };
+  }
+
+  /**
+   * Charge a sign-in attempt against the client IP and the username
+   *
+   * @param ip - Address the attempt came from
+   * @param username - Submitted username, if any
+   * @returns 0 if the attempt may go ahead, otherwise milliseconds to wait
+   */
+  private chargeLoginAttempt(ip: string, username: unknown): number {
+    const options = getLoginRateLimitOptions();
+    if (options.burst <= 0) {
+      return 0;
+    }
+
+    this.prune();
+    const keys = [`ip:${ip}`, ...(typeof username === "string" ? [`user:${username}`] : [])];
+    let waitMs = 0;
+
+    for (const key of keys) {
+      let bucket = this.loginAttempts.get(key);
+      if (!bucket) {
+        bucket = new TokenBucket(options);
+        this.loginAttempts.set(key, bucket);
+      }
+      waitMs = Math.max(waitMs, bucket.take(1));
+    }
+
+    return waitMs;
+  }
+
+  /**
+   * Drop expired pending logins, codes and tokens, and sign-in limits that
+   * have fully recovered
+   */
+  private prune(): void {
+    const now = Date.now();
+
+    for (const [id, login] of this.pendingLogins) {
+      if (login.expiresAt < now) this.pendingLogins.delete(id);
+    }
+    for (const [code, stored] of this.codes) {
+      if (stored.expiresAt < now) this.codes.delete(code);
+    }
+    for (const [token, stored] of this.accessTokens) {
+      if (stored.expiresAt < now / 1000) this.accessTokens.delete(token);
+    }
+    for (const [token, stored] of this.refreshTokens) {
+      if (stored.expiresAt < now) this.refreshTokens.delete(token);
+    }
+    for (const [key, bucket] of this.loginAttempts) {
+      if (bucket.isFull()) this.loginAttempts.delete(key);
+    }
+  }
+
+  /**
+   * Read the users file
+   *
+   * It is read on every sign-in, so users can be added or removed without
+   * restarting the server.
+   *
+   * @returns Configured users, or none if the file is missing or invalid
+   */
+  private async readUsers(): Promise<OAuthUserConfig[]> {
+    try {
+      const data = JSON.parse(await readFile(this.usersFile, "utf-8"));
+      const users: OAuthUserConfig[] = Array.isArray(data?.users) ? data.users : [];
+
+      // Unknown names grant nothing, so a typo would silently hide a document
+      for (const [path, error] of checkUserDocuments(users, this.getConfig())) {
+        logger.error("Invalid OAuth users file", { path: this.usersFile, field: path, error });
+      }
+
+      return users;
+    } catch (error) {
+      logger.error("Failed to read OAuth users file", {
+        path: this.usersFile,
+        error: error instanceof Error ? error.message : error,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find a user by name
+   */
+  private async findUser(username: string): Promise<OAuthUserConfig | undefined> {
+    return (await this.readUsers()).find((user) => user.username === username);
+  }
+
+  /**
+   * Check a username and password against the users file
+   *
+   * Passwords are stored as scrypt hashes. Unknown users take as long as
+   * wrong passwords, so the time taken doesn't reveal whether the username
+   * exists.
+   */
+  private async checkCredentials(
+    username: string,
+    password: string
+  ): Promise<OAuthUserConfig | undefined> {
+    const user = await this.findUser(username);
+
+    if (typeof user?.passwordHash !== "string") {
+      if (user) {
+        logger.error("OAuth user has no passwordHash; create one with npm run hash-password", {
+          username,
+        });
+      }
+      await rejectPassword(password);
+      return undefined;
+    }
+
+    return (await verifyPassword(password, user.passwordHash)) ? user : undefined;
+  }
+}
+
+/**
+ * Render the sign-in form of the authorization server
+ */
+function renderLoginPage(
+  loginId: string,
+  client: OAuthClientInformationFull,
+  error?: string
+): string {
+  const clientName = escapeHtml(client.client_name || client.client_id);
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Sign in - Craft MCP</title></head>
+<body>
+  <h1>Sign in to Craft MCP</h1>
+  <p><strong>${clientName}</strong> wants to access your Craft documents.</p>
+  ${error ? `<p style="color: #b00">${escapeHtml(error)}</p>` : ""}
+  <form method="post" action="/oauth/login">
+    <input type="hidden" name="login" value="${escapeHtml(loginId)}">
+    <p><label>Username <input name="username" autocomplete="username" required></label></p>
+    <p><label>Password <input name="password" type="password" autocomplete="current-password" required></label></p>
+    <p><button type="submit">Sign in</button></p>
+  </form>
+</body>
+</html>`;
+}
+
+/**
+ * Create the routes of the built-in authorization server
+ *
+ * Serves the protected resource metadata, authorization server metadata,
+ * /register, /authorize, /token, /revoke and the sign-in form's target.
+ * Must be mounted at the application root.
+ *
+ * @param provider - Authorization server
+ * @returns Express router
+ */
+export function createOAuthRouter(provider: CraftOAuthProvider): Router {
+  const router = express.Router();
+
+  router.use(
+    mcpAuthRouter({
+      provider,
+      issuerUrl: provider.issuerUrl,
+      scopesSupported: SCOPES,
+      resourceName: "Craft MCP",
+    })
+  );
+
+  router.post(
+    "/oauth/login",
+    express.urlencoded({ extended: false }),
+    (req: Request, res: Response) => provider.handleLogin(req, res)
+  );
+
+  return router;
+}
+
+/**
+ * Get the URL of the protected resource metadata, for WWW-Authenticate
+ *
+ * @param provider - Authorization server
+ * @returns Metadata URL
+ */
+export function getResourceMetadataUrl(provider: CraftOAuthProvider): string {
+  return getOAuthProtectedResourceMetadataUrl(provider.issuerUrl);
+}
+
+/**
+ * Identify the caller of a request by API key or OAuth access token
+ *
+ * API keys keep working next to OAuth. Without either, the request is
+ * rejected even if no API keys are configured.
+ *
+ * @param config - Application configuration
+ * @param provider - Authorization server that issued the tokens
+ * @param headers - Request headers
+ * @param query - Query string parameters
+ * @returns The caller, or an error message for a 401 response
+ */
+export async function authenticateWithOAuth(
+  config: Config,
+  provider: CraftOAuthProvider,
+  headers: Record<string, string | string[] | undefined>,
+  query?: Record<string, unknown> | null
+): Promise<AuthResult> {
+  if (isAuthEnabled(config)) {
+    const auth = authenticate(config, headers, query);
+    if (auth.principal) {
+      return auth;
+    }
+  }
+
+  // Access tokens are only accepted in the Authorization header
+  const token = extractCredential(headers);
+  if (!token) {
+    return { error: "Unauthorized: access token required (Authorization: Bearer <token>)" };
+  }
+
+  const principal = await provider.getPrincipal(token);
+  return principal
+    ? { principal }
+    : { error: "Unauthorized: Invalid or expired access token" };
+}
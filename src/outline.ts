@@ -0,0 +1,117 @@
+import type { Block } from "./types.js";
+import { getPlainText, isPageBlock, getHeadingLevel } from "./render.js";
+
+/**
+ * An entry of a document outline
+ */
+export interface OutlineNode {
+  id: string;
+  type: "page" | "heading";
+  title: string;
+  level: number; // depth in the outline, 1 for top-level entries
+  headingLevel?: number; // 1-4 for headings
+  childBlockCount: number; // blocks inside the page, or in the heading's section
+  children: OutlineNode[];
+}
+
+/**
+ * Count a block and all of its descendants
+ */
+function countBlocks(block: Block): number {
+  return 1 + (block.blocks ?? []).reduce((sum, child) => sum + countBlocks(child), 0);
+}
+
+/**
+ * Build the outline of a list of sibling blocks
+ *
+ * Pages nest their own content. Headings are siblings in Craft, so a
+ * heading's section runs until the next heading of the same or a higher
+ * level, and lower-level headings in it become its children.
+ *
+ * @param blocks - Sibling blocks
+ * @param level - Outline depth of the first entries
+ * @returns Outline entries
+ */
+function buildLevel(blocks: Block[], level: number): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const sections: OutlineNode[] = [];
+
+  const attach = (node: OutlineNode) => {
+    const parent = sections[sections.length - 1];
+    (parent ? parent.children : roots).push(node);
+  };
+
+  for (const block of blocks) {
+    const headingLevel = getHeadingLevel(block);
+
+    if (headingLevel) {
+      while (
+        sections.length > 0 &&
+        (sections[sections.length - 1].headingLevel ?? 0) >= headingLevel
+      ) {
+        sections.pop();
+      }
+    }
+
+    // Everything after a heading, sub-headings included, is in its section
+    const size = countBlocks(block);
+    for (const section of sections) {
+      section.childBlockCount += size;
+    }
+
+    const depth = level + sections.length;
+
+    if (isPageBlock(block)) {
+      attach({
+        id: block.id,
+        type: "page",
+        title: getPlainText(block),
+        level: depth,
+        childBlockCount: countBlocks(block) - 1,
+        children: buildLevel(block.blocks ?? [], depth + 1),
+      });
+    } else if (headingLevel) {
+      const node: OutlineNode = {
+        id: block.id,
+        type: "heading",
+        title: getPlainText(block),
+        level: depth,
+        headingLevel,
+        childBlockCount: countBlocks(block) - 1,
+        children: buildLevel(block.blocks ?? [], depth + 1),
+      };
+      attach(node);
+      sections.push(node);
+    } else {
+      // Pages and headings can also sit inside other blocks (e.g. toggles)
+      for (const node of buildLevel(block.blocks ?? [], depth)) {
+        attach(node);
+      }
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Build the outline (table of contents) of a block tree
+ *
+ * @param data - A block or a list of root blocks
+ * @returns Page and heading entries with IDs, levels and child-block counts
+ */
+export function buildOutline(data: Block | Block[]): OutlineNode[] {
+  return buildLevel(Array.isArray(data) ? data : [data], 1);
+}
+
+/**
+ * Count the entries of an outline
+ *
+ * @param outline - Outline entries
+ * @returns Number of entries, including nested ones
+ */
+export function countOutlineEntries(outline: OutlineNode[]): number {
+  return outline.reduce(
+    (sum, node) => sum + 1 + countOutlineEntries(node.children),
+    0
+  );
+}
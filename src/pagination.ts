@@ -0,0 +1,310 @@
+import { createHash } from "crypto";
+import type { Block, ResponseMetadata } from "./types.js";
+import { calculateResponseSize, truncateResponse } from "./tools.js";
+
+/**
+ * Splits a tool result into an ordered list of items and rebuilds a result
+ * from any contiguous slice of them
+ */
+export interface Paginator {
+  toItems(result: any): any[];
+  fromItems(result: any, items: any[]): any;
+  itemKey(item: any): string; // identifies an item, e.g. its block ID
+}
+
+/**
+ * Position of a page within a result, encoded into an opaque cursor
+ */
+interface CursorState {
+  tool: string;
+  argsHash: string;
+  offset: number;
+  total: number;
+  contentHash: string;
+}
+
+/**
+ * A block from a flattened tree, without its children
+ */
+interface BlockNode {
+  block: Block;
+  parentId?: string;
+}
+
+/**
+ * Room left for `nextCursor` and `_pagination` in a page, in bytes
+ */
+const PAGINATION_OVERHEAD = 512;
+
+/**
+ * Serialize a value with object keys sorted, so equal values hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as any)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint tool arguments so a cursor can't be replayed on another request
+ */
+function hashArgs(args: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(stableStringify(args))
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+/**
+ * Fingerprint the items of a result, so a cursor is rejected once blocks
+ * were added, removed or moved, even if their number stayed the same
+ */
+function hashItems(items: any[], paginator: Paginator): string {
+  const hash = createHash("sha256");
+  for (const item of items) {
+    hash.update(paginator.itemKey(item)).update("\n");
+  }
+  return hash.digest("base64url").slice(0, 16);
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state), "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      typeof state?.tool === "string" &&
+      typeof state?.argsHash === "string" &&
+      Number.isInteger(state?.offset) &&
+      Number.isInteger(state?.total) &&
+      typeof state?.contentHash === "string"
+    ) {
+      return state;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
+
+/**
+ * Flatten a block tree into a pre-order list of childless blocks
+ *
+ * @param data - A block or a list of root blocks
+ * @returns Blocks in document order, each with its parent's ID
+ */
+export function flattenBlockTree(data: Block | Block[]): BlockNode[] {
+  const nodes: BlockNode[] = [];
+
+  const visit = (block: Block, parentId?: string) => {
+    const { blocks, ...rest } = block;
+    nodes.push({ block: rest as Block, parentId });
+    for (const child of blocks ?? []) {
+      visit(child, block.id);
+    }
+  };
+
+  for (const block of Array.isArray(data) ? data : [data]) {
+    visit(block);
+  }
+
+  return nodes;
+}
+
+/**
+ * Rebuild a block tree from a contiguous slice of flattened blocks
+ *
+ * Blocks whose parent is on the same page are nested under it again;
+ * the others become roots and keep a `parentId` so the reader knows
+ * where they belong.
+ *
+ * @param nodes - Slice of flattenBlockTree() output
+ * @returns Root blocks of the slice
+ */
+export function buildBlockTree(nodes: BlockNode[]): Block[] {
+  const byId = new Map<string, Block>();
+  const roots: Block[] = [];
+
+  for (const { block, parentId } of nodes) {
+    const parent = parentId ? byId.get(parentId) : undefined;
+    const node: Block = parent || !parentId ? { ...block } : { ...block, parentId };
+
+    if (parent) {
+      (parent.blocks ??= []).push(node);
+    } else {
+      roots.push(node);
+    }
+
+    byId.set(node.id, node);
+  }
+
+  return roots;
+}
+
+/**
+ * Paginate the block tree in a result's `data` field (read_document, read_block)
+ */
+export const blockTreePaginator: Paginator = {
+  toItems: (result) => (result?.data ? flattenBlockTree(result.data) : []),
+  fromItems: (result, items) => ({ ...result, data: buildBlockTree(items) }),
+  itemKey: (node: BlockNode) => `${node.parentId ?? ""}/${node.block.id}`,
+};
+
+/**
+ * Paginate the flat `results` list of a single-document search
+ */
+export const searchResultsPaginator: Paginator = {
+  toItems: (result) => result?.results ?? [],
+  fromItems: (result, items) => ({ ...result, results: items }),
+  itemKey: (hit) => hit.block?.id ?? "",
+};
+
+/**
+ * Paginate the per-document result groups of search_all_notes
+ *
+ * Items are individual hits in document order; a page regroups its hits
+ * by document. Per-document errors are repeated on every page.
+ */
+export const aggregatedSearchPaginator: Paginator = {
+  toItems: (result) =>
+    (result?.results ?? []).flatMap((group: any) =>
+      (group.results ?? []).map((hit: any) => ({
+        documentName: group.documentName,
+        hit,
+      }))
+    ),
+  fromItems: (result, items) => {
+    const groups: { documentName: string; results: any[] }[] = [];
+
+    for (const { documentName, hit } of items) {
+      const last = groups[groups.length - 1];
+      if (last?.documentName === documentName) {
+        last.results.push(hit);
+      } else {
+        groups.push({ documentName, results: [hit] });
+      }
+    }
+
+    return { ...result, results: groups };
+  },
+  itemKey: ({ documentName, hit }) => `${documentName}/${hit.block?.id ?? ""}`,
+};
+
+/**
+ * Return the page of a result that starts at the cursor and fits the budget
+ *
+ * Without a cursor the first page is returned, and results that already fit
+ * are returned unchanged. When more items remain the page carries a
+ * `nextCursor` that resumes exactly after its last item. The cursor holds a
+ * hash of the items' keys, so it is refused once the result has changed.
+ *
+ * @param tool - Tool name, bound into the cursor
+ * @param args - Tool arguments without the cursor, bound into the cursor
+ * @param result - Complete tool result
+ * @param paginator - How to split and rebuild the result
+ * @param maxSize - Maximum response size in bytes
+ * @param cursor - Cursor from a previous page, if resuming
+ * @returns Page data and size metadata
+ * @throws Error if the cursor is invalid, belongs to another request or is stale
+ */
+export function paginateResponse(
+  tool: string,
+  args: Record<string, unknown>,
+  result: any,
+  paginator: Paginator,
+  maxSize: number,
+  cursor?: string
+): { data: any; metadata: ResponseMetadata } {
+  const items = paginator.toItems(result);
+  const argsHash = hashArgs(args);
+  const contentHash = hashItems(items, paginator);
+  let offset = 0;
+
+  if (cursor) {
+    const state = decodeCursor(cursor);
+
+    if (state.tool !== tool || state.argsHash !== argsHash) {
+      throw new Error(
+        "Cursor does not belong to this request; pass the same arguments as the previous call"
+      );
+    }
+
+    if (
+      state.total !== items.length ||
+      state.contentHash !== contentHash ||
+      state.offset > items.length
+    ) {
+      throw new Error(
+        "The content changed since the cursor was issued; repeat the request without a cursor"
+      );
+    }
+
+    offset = state.offset;
+  } else if (calculateResponseSize(result) <= maxSize || items.length === 0) {
+    return truncateResponse(result, maxSize);
+  }
+
+  // Fill the page greedily from estimated item sizes...
+  const budget =
+    maxSize - calculateResponseSize(paginator.fromItems(result, [])) - PAGINATION_OVERHEAD;
+  let end = offset;
+  let used = 0;
+
+  while (end < items.length) {
+    const itemSize = calculateResponseSize(items[end]) + 1;
+    if (end > offset && used + itemSize > budget) {
+      break;
+    }
+    used += itemSize;
+    end++;
+  }
+
+  // ...then trim until the rebuilt page really fits
+  const buildPage = () => {
+    const page = paginator.fromItems(result, items.slice(offset, end));
+    const hasMore = end < items.length;
+
+    return {
+      ...page,
+      ...(hasMore
+        ? {
+            nextCursor: encodeCursor({
+              tool,
+              argsHash,
+              offset: end,
+              total: items.length,
+              contentHash,
+            }),
+          }
+        : {}),
+      _pagination: {
+        offset,
+        returned: end - offset,
+        total: items.length,
+        hasMore,
+      },
+    };
+  };
+
+  let page = buildPage();
+  while (calculateResponseSize(page) > maxSize && end - offset > 1) {
+    end--;
+    page = buildPage();
+  }
+
+  // A single item larger than the budget can only be truncated
+  const { data, metadata } = truncateResponse(page, maxSize);
+  return { data, metadata: { ...metadata, hasMore: end < items.length } };
+}
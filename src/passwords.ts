@@ -0,0 +1,113 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+/**
+ * scrypt cost parameters for new hashes
+ */
+const COST = 16384; // N
+const BLOCK_SIZE = 8; // r
+const PARALLELIZATION = 1; // p
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+/**
+ * Hash compared against when a user doesn't exist, so the time taken
+ * doesn't reveal whether a username is valid
+ */
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Derive a key from a password with scrypt
+ */
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  cost: number,
+  blockSize: number,
+  parallelization: number,
+  keyLength: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      {
+        N: cost,
+        r: blockSize,
+        p: parallelization,
+        maxmem: 256 * cost * blockSize + 1024 * 1024,
+      },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Hash a password for the OAuth users file
+ *
+ * @param password - Password in plain text
+ * @returns `scrypt$N$r$p$<salt>$<hash>`, salt and hash in base64url
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, COST, BLOCK_SIZE, PARALLELIZATION, KEY_LENGTH);
+  return [
+    "scrypt",
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString("base64url"),
+    key.toString("base64url"),
+  ].join("$");
+}
+
+/**
+ * Check a password against a hash from hashPassword()
+ *
+ * The hash's own parameters are used, so hashes made with other costs keep
+ * working.
+ *
+ * @param password - Password sent by the user
+ * @param stored - Hash from the users file
+ * @returns True if the password matches; false for malformed hashes
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelization, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash ?? "", "base64url");
+
+  if (
+    scheme !== "scrypt" ||
+    ![cost, blockSize, parallelization].every((value) => /^\d+$/.test(value ?? "")) ||
+    !salt ||
+    expected.length === 0
+  ) {
+    return false;
+  }
+
+  try {
+    const key = await deriveKey(
+      password,
+      Buffer.from(salt, "base64url"),
+      Number(cost),
+      Number(blockSize),
+      Number(parallelization),
+      expected.length
+    );
+    return timingSafeEqual(key, expected);
+  } catch {
+    // Parameters scrypt refuses, e.g. a cost that isn't a power of two
+    return false;
+  }
+}
+
+/**
+ * Spend as long as verifyPassword() on a password that can't match
+ *
+ * @param password - Password sent for an unknown user
+ * @returns Always false
+ */
+export async function rejectPassword(password: string): Promise<false> {
+  dummyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString("base64url"));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
@@ -0,0 +1,70 @@
+import type { Config, DocumentConfig, DocumentPermission } from "./types.js";
+
+/**
+ * All permission levels, from least to most privileged
+ */
+export const PERMISSION_LEVELS: DocumentPermission[] = ["read", "append", "write"];
+
+/**
+ * Get the effective permission of a document
+ *
+ * @param doc - Document configuration
+ * @returns Configured permission, or "read" when none is set
+ */
+export function getDocumentPermission(doc: DocumentConfig): DocumentPermission {
+  return doc.permissions ?? "read";
+}
+
+/**
+ * Check whether a document grants at least the required permission
+ *
+ * @param doc - Document configuration
+ * @param required - Minimum permission needed
+ * @returns True if the document allows the access
+ */
+export function hasPermission(
+  doc: DocumentConfig,
+  required: DocumentPermission
+): boolean {
+  return (
+    PERMISSION_LEVELS.indexOf(getDocumentPermission(doc)) >=
+    PERMISSION_LEVELS.indexOf(required)
+  );
+}
+
+/**
+ * Filter a tool listing down to the tools usable on at least one document
+ *
+ * Tools that only some documents allow get the allowed document names
+ * appended to their description so assistants don't try the others.
+ *
+ * @param config - Application configuration
+ * @param tools - Tool definitions with description and required permission
+ * @returns Visible tools, annotated where access is partial
+ */
+export function filterToolsByPermission<
+  T extends { description: string; permission: DocumentPermission }
+>(config: Config, tools: T[]): T[] {
+  return tools.flatMap((tool) => {
+    const allowed = config.documents.filter((doc) =>
+      hasPermission(doc, tool.permission)
+    );
+
+    if (allowed.length === 0) {
+      return [];
+    }
+
+    if (allowed.length === config.documents.length) {
+      return [tool];
+    }
+
+    return [
+      {
+        ...tool,
+        description: `${tool.description} Only allowed on: ${allowed
+          .map((doc) => doc.name)
+          .join(", ")}.`,
+      },
+    ];
+  });
+}
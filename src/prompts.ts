@@ -0,0 +1,403 @@
+import { z } from "zod";
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  Prompt,
+  PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Config, PromptContextDefinition, PromptDefinition } from "./types.js";
+import { Principal, isToolAllowed, scopeConfig } from "./auth.js";
+import { ToolCallOptions, callTool } from "./registry.js";
+import { formatPath, getConfigPath } from "./config.js";
+import { getResourceUri } from "./resources.js";
+import { resolveDocumentName } from "./documents.js";
+import { logger } from "./logger.js";
+
+// Get directory name for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PROMPTS_FILE = "prompts.json";
+
+/**
+ * Matches `{{argument}}` placeholders
+ */
+const PLACEHOLDER = /\{\{([A-Za-z_][A-Za-z0-9_]*)\}\}/g;
+
+/**
+ * Matches `{{#argument}}...{{/argument}}` sections, kept only when the argument is set
+ */
+const SECTION = /\{\{#([A-Za-z_][A-Za-z0-9_]*)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/**
+ * Prompts every server offers; prompts.json can add to or replace them
+ */
+const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "summarize_meeting",
+    title: "Summarize a meeting",
+    description: "Summarize a meeting document: overview, decisions, open questions and action items",
+    arguments: [
+      { name: "documentName", description: "Name of the meeting document", required: true },
+      { name: "focus", description: "Topic to pay particular attention to" },
+    ],
+    context: [{ document: "{{documentName}}" }],
+    text:
+      'Summarize the meeting notes in the Craft document "{{documentName}}" above. ' +
+      "Start with a two-sentence overview, then list the decisions made, the open questions, " +
+      "and the action items with their owners and due dates where mentioned." +
+      "{{#focus}} Pay particular attention to: {{focus}}.{{/focus}}",
+  },
+  {
+    name: "find_action_items",
+    title: "Find open action items",
+    description: "Find open action items across all notes",
+    arguments: [
+      {
+        name: "keyword",
+        description: 'Text that marks action items in your notes (default: "TODO")',
+        default: "TODO",
+      },
+    ],
+    context: [{ search: "{{keyword}}" }],
+    text:
+      'The search results above are every block across my notes matching "{{keyword}}". ' +
+      "List the action items that are still open, grouped by document, with the owner and due date " +
+      "where mentioned. Leave out items that are marked as done.",
+  },
+  {
+    name: "answer_from_notes",
+    title: "Answer from notes",
+    description: "Answer a question using only what the notes say about a keyword",
+    arguments: [
+      { name: "question", description: "The question to answer", required: true },
+      { name: "keyword", description: "Word or phrase to search the notes for", required: true },
+    ],
+    context: [{ search: "{{keyword}}" }],
+    text:
+      "Using only the search results from my notes above, answer this question: {{question}}\n\n" +
+      "Name the document each fact comes from. If the notes don't answer the question, say so.",
+  },
+];
+
+const argumentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "must be letters, digits and underscores"),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.string().optional(),
+});
+
+const contextSchema = z
+  .object({
+    document: z.string().min(1, "must not be empty").optional(),
+    search: z.string().min(1, "must not be empty").optional(),
+  })
+  .refine((context) => context.document || context.search, "needs a document or a search");
+
+const promptSchema = z
+  .object({
+    name: z.string().min(1, "must not be empty"),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    arguments: z.array(argumentSchema).optional(),
+    context: z.array(contextSchema).optional(),
+    text: z.string().min(1, "must not be empty"),
+  })
+  .superRefine((prompt, ctx) => {
+    const names = new Set(prompt.arguments?.map((arg) => arg.name));
+    const check = (template: string | undefined, path: Array<string | number>) => {
+      const used = [
+        ...(template?.matchAll(PLACEHOLDER) ?? []),
+        ...(template?.matchAll(SECTION) ?? []),
+      ];
+      for (const [, name] of used) {
+        if (!names.has(name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path,
+            message: `unknown argument "${name}"`,
+          });
+        }
+      }
+    };
+
+    check(prompt.text, ["text"]);
+    prompt.context?.forEach((context, i) => {
+      check(context.document, ["context", i, "document"]);
+      check(context.search, ["context", i, "search"]);
+    });
+  });
+
+/**
+ * Schema of prompts.json
+ */
+const promptsFileSchema = z
+  .object({
+    prompts: z.array(promptSchema, { required_error: "a prompts array is required" }),
+  })
+  .superRefine((file, ctx) => {
+    const seen = new Set<string>();
+    file.prompts.forEach((prompt, i) => {
+      if (seen.has(prompt.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["prompts", i, "name"],
+          message: `duplicate prompt name "${prompt.name}"`,
+        });
+      }
+      seen.add(prompt.name);
+    });
+  });
+
+/**
+ * Get the path of the prompts file
+ *
+ * @returns prompts.json next to the config file, or in the project root
+ *   when CRAFT_CONFIG holds the configuration itself
+ */
+export function getPromptsPath(): string {
+  const configPath = getConfigPath();
+  return join(configPath ? dirname(configPath) : join(__dirname, ".."), PROMPTS_FILE);
+}
+
+/**
+ * Read and validate the prompts defined in prompts.json
+ *
+ * @returns Defined prompts; none if the file is missing or invalid
+ */
+async function readCustomPrompts(): Promise<PromptDefinition[]> {
+  const path = getPromptsPath();
+
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger.error("Failed to read prompts file", { path, error });
+    }
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    logger.error(`Invalid prompts in ${path}: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+
+  const result = promptsFileSchema.safeParse(raw);
+  if (!result.success) {
+    const lines = result.error.issues.map(
+      (issue) => `  - ${formatPath(issue.path)}: ${issue.message}`
+    );
+    logger.error(`Invalid prompts in ${path}:\n${lines.join("\n")}`);
+    return [];
+  }
+
+  return result.data.prompts;
+}
+
+/**
+ * Load the built-in prompts and those from prompts.json
+ *
+ * The file is read on every call, so edits apply without a restart. A
+ * prompt in the file replaces the built-in prompt of the same name.
+ *
+ * @returns Prompt definitions
+ */
+export async function loadPrompts(): Promise<PromptDefinition[]> {
+  const custom = await readCustomPrompts();
+  const names = new Set(custom.map((prompt) => prompt.name));
+  return [...BUILT_IN_PROMPTS.filter((prompt) => !names.has(prompt.name)), ...custom];
+}
+
+/**
+ * Get the tool that fetches a context entry
+ */
+function getContextTool(context: PromptContextDefinition): string {
+  if (context.search) {
+    return context.document ? "search_document" : "search_all_notes";
+  }
+  return "read_document";
+}
+
+/**
+ * Check whether a caller may use a prompt
+ *
+ * Prompt context is fetched with the read and search tools, so a prompt
+ * is hidden from callers whose API key doesn't allow the tools it needs.
+ */
+function isPromptAllowed(prompt: PromptDefinition, principal?: Principal): boolean {
+  return (
+    !principal ||
+    (prompt.context ?? []).every((context) => isToolAllowed(principal, getContextTool(context)))
+  );
+}
+
+/**
+ * Find a prompt a caller may use
+ *
+ * @param name - Prompt name
+ * @param principal - Caller, if authenticated
+ * @returns Prompt definition, or undefined if unknown to the caller
+ */
+export async function findPrompt(
+  name: string,
+  principal?: Principal
+): Promise<PromptDefinition | undefined> {
+  const prompts = await loadPrompts();
+  const prompt = prompts.find((p) => p.name === name);
+  return prompt && isPromptAllowed(prompt, principal) ? prompt : undefined;
+}
+
+/**
+ * List the prompts a caller may use
+ *
+ * @param principal - Caller, if authenticated
+ * @returns Prompts for prompts/list
+ */
+export async function listPrompts(principal?: Principal): Promise<Prompt[]> {
+  const prompts = await loadPrompts();
+  return prompts
+    .filter((prompt) => isPromptAllowed(prompt, principal))
+    .map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments?.map(({ name, description, required }) => ({
+        name,
+        description,
+        required: required ?? false,
+      })),
+    }));
+}
+
+/**
+ * Fill in `{{argument}}` placeholders and `{{#argument}}...{{/argument}}` sections
+ *
+ * @param template - Text with placeholders
+ * @param values - Argument values; unset arguments become empty
+ * @returns Filled-in text
+ */
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(SECTION, (_match, name: string, section: string) => (values[name] ? section : ""))
+    .replace(PLACEHOLDER, (_match, name: string) => values[name] ?? "");
+}
+
+/**
+ * Fetch one context entry through the tool registry
+ *
+ * Goes through callTool, so the read is limited to the caller's
+ * documents, rate limited and audited like any tool call.
+ *
+ * @throws McpError if the content can't be fetched
+ */
+async function fetchContext(
+  config: Config,
+  prompt: PromptDefinition,
+  context: PromptContextDefinition,
+  values: Record<string, string>,
+  options: ToolCallOptions
+): Promise<PromptMessage> {
+  const requested = context.document && fillTemplate(context.document, values);
+  const query = context.search && fillTemplate(context.search, values);
+  const tool = getContextTool(context);
+
+  // Embed documents under their configured name, whatever name was given
+  const documents = options.principal
+    ? scopeConfig(config, options.principal).documents
+    : config.documents;
+  const document = requested && (resolveDocumentName(documents, requested).doc?.name ?? requested);
+
+  const { result, isError } = await callTool(
+    config,
+    tool,
+    {
+      ...(document ? { documentName: document } : {}),
+      ...(query ? { query } : {}),
+      output: "markdown",
+    },
+    // Whole documents are embedded; search results are paged as usual
+    query ? options : { ...options, maxResponseSize: Infinity }
+  );
+
+  if (result?.error === "rate_limited") {
+    throw new McpError(ErrorCode.InternalError, result.message, result);
+  }
+  if (isError || result?.error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to fetch context for prompt "${prompt.name}": ${result?.error}`,
+      result
+    );
+  }
+
+  const text = typeof result === "string" ? result : JSON.stringify(result);
+  if (!query) {
+    return {
+      role: "user",
+      content: {
+        type: "resource",
+        resource: { uri: getResourceUri(document!), mimeType: "text/markdown", text },
+      },
+    };
+  }
+
+  const scope = document ? `"${document}"` : "all notes";
+  return {
+    role: "user",
+    content: { type: "text", text: `Search results for "${query}" in ${scope}:\n\n${text}` },
+  };
+}
+
+/**
+ * Build a prompt's messages with its Craft content embedded
+ *
+ * @param config - Application configuration
+ * @param name - Prompt name
+ * @param args - Argument values from the client
+ * @param options - Caller and session of the request
+ * @returns Prompt for prompts/get: the context messages, then the instructions
+ * @throws McpError if the prompt is unknown, an argument is missing or
+ *   the content can't be fetched
+ */
+export async function getPrompt(
+  config: Config,
+  name: string,
+  args: Record<string, string> = {},
+  options: ToolCallOptions = {}
+): Promise<GetPromptResult> {
+  const prompt = await findPrompt(name, options.principal);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const arg of prompt.arguments ?? []) {
+    const value = args[arg.name]?.trim() || arg.default;
+    if (!value && arg.required) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument "${arg.name}" for prompt "${name}"`
+      );
+    }
+    if (value) values[arg.name] = value;
+  }
+
+  const messages: PromptMessage[] = [];
+  for (const context of prompt.context ?? []) {
+    messages.push(await fetchContext(config, prompt, context, values, options));
+  }
+  messages.push({
+    role: "user",
+    content: { type: "text", text: fillTemplate(prompt.text, values) },
+  });
+
+  return { description: prompt.description, messages };
+}
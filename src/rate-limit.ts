@@ -0,0 +1,237 @@
+/**
+ * Rate limit settings for tool calls
+ */
+export interface RateLimitOptions {
+  burst: number; // bucket capacity, 0 disables rate limiting
+  perMinute: number; // tokens added back per minute
+}
+
+/**
+ * Concurrency settings for upstream Craft requests
+ */
+export interface ConcurrencyOptions {
+  maxConcurrent: number; // per endpoint, 0 = unlimited
+  maxWaitMs: number; // how long a request may queue for a free slot
+}
+
+/**
+ * A rejected call, returned to the client as a `rate_limited` error
+ */
+export interface RateLimitRejection {
+  message: string;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Thrown when a Craft endpoint has no free slot within the wait limit
+ */
+export class UpstreamBusyError extends Error {
+  constructor() {
+    super("Too many concurrent requests to a Craft document; retry shortly");
+    this.name = "UpstreamBusyError";
+  }
+}
+
+/**
+ * Read rate limit settings from the environment
+ *
+ * @returns Rate limit options with defaults applied
+ */
+export function getRateLimitOptions(): RateLimitOptions {
+  return {
+    burst: parseInt(process.env.RATE_LIMIT_BURST || "30", 10),
+    perMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || "60", 10),
+  };
+}
+
+/**
+ * Read upstream concurrency settings from the environment
+ *
+ * @returns Concurrency options with defaults applied
+ */
+export function getConcurrencyOptions(): ConcurrencyOptions {
+  return {
+    maxConcurrent: parseInt(process.env.CRAFT_MAX_CONCURRENT_REQUESTS || "4", 10),
+    maxWaitMs: parseInt(process.env.CRAFT_CONCURRENCY_WAIT_MS || "10000", 10),
+  };
+}
+
+/**
+ * Token bucket: holds up to `burst` tokens and refills continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly options: RateLimitOptions) {
+    this.tokens = options.burst;
+  }
+
+  /**
+   * Take tokens from the bucket if enough are left
+   *
+   * @param cost - Tokens to take (capped at the bucket size)
+   * @returns 0 if taken, otherwise milliseconds until enough have refilled
+   */
+  take(cost: number): number {
+    this.refill();
+    const needed = Math.min(cost, this.options.burst);
+
+    if (this.tokens >= needed) {
+      this.tokens -= needed;
+      return 0;
+    }
+
+    if (this.options.perMinute <= 0) {
+      return Infinity;
+    }
+    return ((needed - this.tokens) / this.options.perMinute) * 60_000;
+  }
+
+  /**
+   * Whether the bucket is full again, so it can be forgotten
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.options.burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens + ((now - this.updatedAt) / 60_000) * this.options.perMinute
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Counting semaphore with a FIFO queue and a wait limit
+ */
+export class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Wait for a free slot
+   *
+   * @param maxWaitMs - Give up after this long
+   * @returns True if a slot was acquired, false on timeout
+   */
+  acquire(maxWaitMs: number): Promise<boolean> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const grant = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== grant);
+        resolve(false);
+      }, maxWaitMs);
+      this.waiting.push(grant);
+    });
+  }
+
+  /**
+   * Free a slot, handing it to the next waiting call if any
+   */
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // the slot passes on, so `active` stays the same
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Token buckets by caller (API key or session)
+ */
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Bucket count above which full buckets are dropped
+ */
+const MAX_IDLE_BUCKETS = 1000;
+
+/**
+ * Upstream semaphores by Craft API endpoint
+ */
+const semaphores = new Map<string, Semaphore>();
+
+/**
+ * Charge a tool call against a caller's rate limit
+ *
+ * @param key - Caller the limit applies to (API key or session)
+ * @param cost - Tokens the call costs, one per Craft endpoint it reaches
+ * @returns A rejection if the caller is over the limit, otherwise undefined
+ */
+export function checkRateLimit(key: string, cost: number): RateLimitRejection | undefined {
+  const options = getRateLimitOptions();
+  if (options.burst <= 0) {
+    return undefined;
+  }
+
+  if (buckets.size > MAX_IDLE_BUCKETS) {
+    for (const [bucketKey, bucket] of buckets) {
+      if (bucket.isFull()) buckets.delete(bucketKey);
+    }
+  }
+
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(options);
+    buckets.set(key, bucket);
+  }
+
+  const waitMs = bucket.take(cost);
+  if (waitMs === 0) {
+    return undefined;
+  }
+
+  const retryAfterSeconds = Number.isFinite(waitMs) ? Math.max(Math.ceil(waitMs / 1000), 1) : 60;
+  return {
+    message: `Rate limit exceeded; retry in ${retryAfterSeconds}s`,
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Wait for a free slot on a Craft endpoint
+ *
+ * Every HTTP request to Craft holds a slot while it is in flight, whether
+ * it comes from a tool call or from background work such as resource
+ * polling, completions and index refreshes.
+ *
+ * @param endpoint - Craft API base URL the request goes to
+ * @returns Function that frees the slot again
+ * @throws UpstreamBusyError if no slot freed up in time
+ */
+export async function acquireUpstreamSlot(endpoint: string): Promise<() => void> {
+  const options = getConcurrencyOptions();
+  if (options.maxConcurrent <= 0) {
+    return () => {};
+  }
+
+  let semaphore = semaphores.get(endpoint);
+  if (!semaphore) {
+    semaphore = new Semaphore(options.maxConcurrent);
+    semaphores.set(endpoint, semaphore);
+  }
+
+  if (!(await semaphore.acquire(options.maxWaitMs))) {
+    throw new UpstreamBusyError();
+  }
+
+  const held = semaphore;
+  return () => held.release();
+}
@@ -0,0 +1,676 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { Config, DocumentConfig, DocumentPermission, ResponseMetadata } from "./types.js";
+import {
+  listDocumentsSchema,
+  listGroupsSchema,
+  searchAllNotesSchema,
+  searchDocumentSchema,
+  readDocumentSchema,
+  readBlockSchema,
+  getDocumentOutlineSchema,
+  rankedSearchSchema,
+  semanticSearchSchema,
+  refreshDocumentSchema,
+  appendToDocumentSchema,
+  updateBlockSchema,
+  deleteBlockSchema,
+} from "./types.js";
+import {
+  listDocuments,
+  listGroups,
+  searchAllNotes,
+  searchDocument,
+  readDocument,
+  readBlock,
+  getDocumentOutline,
+  rankedSearch,
+  semanticSearch,
+  refreshDocument,
+  appendToDocument,
+  updateBlock,
+  deleteBlock,
+  truncateResponse,
+} from "./tools.js";
+import { filterToolsByPermission } from "./permissions.js";
+import {
+  ANONYMOUS,
+  Principal,
+  getPrincipalId,
+  isToolAllowed,
+  scopeConfig,
+} from "./auth.js";
+import { RateLimitRejection, checkRateLimit } from "./rate-limit.js";
+import { ToolCallStatus, recordToolCall } from "./metrics.js";
+import { recordAudit } from "./audit.js";
+import { DocumentMatchKind, filterDocuments, resolveDocumentName } from "./documents.js";
+import { createRequestId, getRequestId, logger, runWithRequestId } from "./logger.js";
+import { isSearchIndexEnabled } from "./search-index.js";
+import { isSemanticSearchEnabled } from "./vector-index.js";
+import {
+  Paginator,
+  paginateResponse,
+  blockTreePaginator,
+  searchResultsPaginator,
+  aggregatedSearchPaginator,
+} from "./pagination.js";
+import {
+  RenderOptions,
+  renderDocumentResult,
+  renderSearchResult,
+  renderAggregatedSearchResult,
+} from "./render.js";
+
+/**
+ * A tool exposed by every transport
+ */
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  permission: DocumentPermission;
+  handler: (config: Config, args: z.infer<S>) => Promise<any>;
+  paginator?: Paginator; // results larger than the size limit are paged with a cursor
+  renderer?: (result: any, options: RenderOptions) => string; // for `output: "markdown" | "text"`
+  enabled?: (config: Config) => boolean; // optional tools that must be switched on in config.json
+  upstream?: false; // the tool never calls the Craft API, so it isn't rate limited
+}
+
+/**
+ * Tool as advertised in tool listings
+ */
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+/**
+ * Outcome of a tool call, before it is shaped for a transport
+ */
+export interface ToolCallResult {
+  result: any; // JSON-serializable data, or a string for rendered output
+  metadata: ResponseMetadata;
+  isError: boolean;
+}
+
+/**
+ * Options for a tool call
+ */
+export interface ToolCallOptions {
+  maxResponseSize?: number;
+  principal?: Principal; // authenticated caller; limits documents and tools
+  sessionId?: string; // MCP session, for rate limiting callers without an API key
+}
+
+/**
+ * A document name in the arguments that was taken as a different configured name
+ */
+export interface ResolvedDocumentName {
+  requested: string;
+  documentName: string;
+  matchedBy: DocumentMatchKind;
+}
+
+/**
+ * Keep the schema's argument type attached to its handler
+ */
+function defineTool<S extends z.AnyZodObject>(
+  tool: ToolDefinition<S>
+): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+/**
+ * All tools, in the order they are listed
+ */
+export const tools: ToolDefinition[] = [
+  defineTool({
+    name: "list_documents",
+    description: "List all available Craft documents configured in the server",
+    schema: listDocumentsSchema,
+    permission: "read",
+    handler: (config) => listDocuments(config),
+    upstream: false,
+  }),
+  defineTool({
+    name: "list_groups",
+    description:
+      "List the groups and tags of the configured Craft documents, with the documents in each. Use them to narrow search_all_notes.",
+    schema: listGroupsSchema,
+    permission: "read",
+    handler: (config) => listGroups(config),
+    upstream: false,
+  }),
+  defineTool({
+    name: "search_all_notes",
+    description:
+      "Search across all configured Craft documents, or only those named in documents, tagged with one of tags or in group. Returns aggregated results with document name context. Gracefully handles failures from individual documents. Large results are paged: pass nextCursor back as cursor to continue.",
+    schema: searchAllNotesSchema,
+    permission: "read",
+    handler: (config, args) =>
+      searchAllNotes(config, args.query, args.caseSensitive, {
+        documents: args.documents,
+        tags: args.tags,
+        group: args.group,
+      }),
+    paginator: aggregatedSearchPaginator,
+    renderer: renderAggregatedSearchResult,
+  }),
+  defineTool({
+    name: "search_document",
+    description:
+      "Search within a specific Craft document by name. Returns matching blocks with context. Large results are paged: pass nextCursor back as cursor to continue.",
+    schema: searchDocumentSchema,
+    permission: "read",
+    handler: (config, args) =>
+      searchDocument(config, args.documentName, args.query, args.caseSensitive),
+    paginator: searchResultsPaginator,
+    renderer: renderSearchResult,
+  }),
+  defineTool({
+    name: "read_document",
+    description:
+      "Read the entire structure of a Craft document, including all blocks and their hierarchy. Large documents are paged: pass nextCursor back as cursor to continue.",
+    schema: readDocumentSchema,
+    permission: "read",
+    handler: (config, args) =>
+      readDocument(config, args.documentName, args.maxDepth),
+    paginator: blockTreePaginator,
+    renderer: renderDocumentResult,
+  }),
+  defineTool({
+    name: "read_block",
+    description: "Read a specific block from a Craft document by its ID",
+    schema: readBlockSchema,
+    permission: "read",
+    handler: (config, args) =>
+      readBlock(config, args.documentName, args.blockId),
+    paginator: blockTreePaginator,
+    renderer: renderDocumentResult,
+  }),
+  defineTool({
+    name: "get_document_outline",
+    description:
+      "Get the table of contents of a Craft document: its pages and headings as a tree with block IDs, levels and the number of blocks in each section. Use read_block with an ID to read a section.",
+    schema: getDocumentOutlineSchema,
+    permission: "read",
+    handler: (config, args) => getDocumentOutline(config, args.documentName),
+  }),
+  defineTool({
+    name: "ranked_search",
+    description:
+      "Rank blocks across all Craft documents by relevance to a free-text query (BM25 over a local full-text index). Returns the top-K blocks with their score, document and parent path of pages and headings. Use read_block with a blockId to read more.",
+    schema: rankedSearchSchema,
+    permission: "read",
+    handler: (config, args) =>
+      rankedSearch(config, args.query, args.topK, args.documents),
+    enabled: isSearchIndexEnabled,
+  }),
+  defineTool({
+    name: "semantic_search",
+    description:
+      "Find passages across all Craft documents that are close in meaning to a question, even when they use different wording (embeddings from a local model). Returns the nearest passages with similarity score, document and breadcrumb path of pages and headings. Use read_block with a blockId to read more.",
+    schema: semanticSearchSchema,
+    permission: "read",
+    handler: (config, args) =>
+      semanticSearch(config, args.query, args.topK, args.documents, args.minScore),
+    enabled: isSemanticSearchEnabled,
+  }),
+  defineTool({
+    name: "refresh_document",
+    description:
+      "Discard cached content for a Craft document so the next read or search fetches it fresh. Use after the document was edited outside this server.",
+    schema: refreshDocumentSchema,
+    permission: "read",
+    handler: (config, args) => refreshDocument(config, args.documentName),
+    upstream: false,
+  }),
+  defineTool({
+    name: "append_to_document",
+    description:
+      "Append Markdown content as new blocks to a Craft document, optionally inside a specific page block. Returns the IDs of the created blocks.",
+    schema: appendToDocumentSchema,
+    permission: "append",
+    handler: (config, args) =>
+      appendToDocument(
+        config,
+        args.documentName,
+        args.markdown,
+        args.parentBlockId,
+        args.position
+      ),
+  }),
+  defineTool({
+    name: "update_block",
+    description:
+      "Replace the content of a specific block in a Craft document by its ID",
+    schema: updateBlockSchema,
+    permission: "write",
+    handler: (config, args) =>
+      updateBlock(config, args.documentName, args.blockId, args.markdown),
+  }),
+  defineTool({
+    name: "delete_block",
+    description: "Delete a specific block from a Craft document by its ID",
+    schema: deleteBlockSchema,
+    permission: "write",
+    handler: (config, args) =>
+      deleteBlock(config, args.documentName, args.blockId),
+  }),
+];
+
+/**
+ * Find a tool by name
+ *
+ * @param name - Tool name
+ * @param config - If given, optional tools it doesn't enable are not found
+ * @returns Tool definition, or undefined if there is no such tool
+ */
+export function getTool(name: string, config?: Config): ToolDefinition | undefined {
+  return tools.find(
+    (tool) =>
+      tool.name === name && (!config || (tool.enabled?.(config) ?? true))
+  );
+}
+
+/**
+ * Convert a tool's zod schema into the JSON Schema sent to clients
+ *
+ * @param schema - Zod object schema of the tool arguments
+ * @returns JSON Schema object
+ */
+function toInputSchema(schema: z.AnyZodObject): Record<string, any> {
+  // The cast keeps tsc from expanding zod's generics when matching the
+  // parameter type ("type instantiation is excessively deep")
+  const { $schema, additionalProperties, ...jsonSchema } = zodToJsonSchema(
+    schema as unknown as Parameters<typeof zodToJsonSchema>[0],
+    { $refStrategy: "none" }
+  ) as { [key: string]: unknown };
+  return jsonSchema;
+}
+
+/**
+ * List the tools available with the given configuration
+ *
+ * @param config - Application configuration
+ * @param principal - Authenticated caller, if any; only its tools and documents count
+ * @returns Tool listings with JSON Schema input definitions
+ */
+export function listTools(config: Config, principal?: Principal): ToolListing[] {
+  const enabledTools = tools.filter(
+    (tool) =>
+      (tool.enabled?.(config) ?? true) &&
+      (!principal || isToolAllowed(principal, tool.name))
+  );
+  const scoped = principal ? scopeConfig(config, principal) : config;
+  return filterToolsByPermission(scoped, enabledTools).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool.schema),
+  }));
+}
+
+/**
+ * Get the documents a tool call is aimed at
+ *
+ * @param tool - Tool definition
+ * @param config - Configuration scoped to the caller
+ * @param args - Tool arguments
+ * @returns Documents the call names, the documents its `documents`,
+ *   `tags` and `group` filters select for tools that reach the Craft API
+ *   (all without filters), none otherwise
+ */
+function getTargetDocuments(
+  tool: ToolDefinition,
+  config: Config,
+  args: Record<string, any>
+): DocumentConfig[] {
+  if (typeof args.documentName === "string") {
+    const { doc } = resolveDocumentName(
+      config.documents,
+      args.documentName,
+      tool.permission === "read"
+    );
+    return doc ? [doc] : [];
+  }
+
+  if (tool.upstream === false) {
+    return [];
+  }
+
+  const strings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : undefined;
+  return filterDocuments(config.documents, {
+    documents: strings(args.documents),
+    tags: strings(args.tags),
+    group: typeof args.group === "string" ? args.group : undefined,
+  });
+}
+
+/**
+ * Replace document names in tool arguments with the configured names
+ *
+ * `documentName` and the entries of `documents` may be aliases or close
+ * matches (see resolveDocumentName()); the tools always get configured
+ * names. Tools that change documents only accept exact names, aliases and
+ * names differing in case or spacing. Names that don't resolve are left
+ * for the tool to report.
+ *
+ * @param tool - Tool definition, for the access it needs
+ * @param config - Configuration scoped to the caller
+ * @param args - Parsed tool arguments
+ * @returns Arguments with configured names, and the names that were replaced
+ */
+function resolveDocumentArguments(
+  tool: ToolDefinition,
+  config: Config,
+  args: Record<string, any>
+): { args: Record<string, any>; resolved: ResolvedDocumentName[] } {
+  const allowFuzzy = tool.permission === "read";
+  const resolved: ResolvedDocumentName[] = [];
+  const resolve = (requested: string) => {
+    const { doc, matchedBy } = resolveDocumentName(config.documents, requested, allowFuzzy);
+    if (doc && doc.name !== requested) {
+      resolved.push({ requested, documentName: doc.name, matchedBy: matchedBy! });
+    }
+    return doc?.name ?? requested;
+  };
+
+  const result = { ...args };
+  if (typeof args.documentName === "string") {
+    result.documentName = resolve(args.documentName);
+  }
+  if (Array.isArray(args.documents)) {
+    result.documents = args.documents.map((name: unknown) =>
+      typeof name === "string" ? resolve(name) : name
+    );
+  }
+  return { args: result, resolved };
+}
+
+/**
+ * Describe replaced document names at the top of rendered output
+ *
+ * @param resolved - Names replaced by resolveDocumentArguments()
+ * @returns One line per name followed by a blank line, or "" if none were replaced
+ */
+function describeResolved(resolved: ResolvedDocumentName[]): string {
+  if (resolved.length === 0) {
+    return "";
+  }
+  const lines = resolved.map(
+    ({ requested, documentName }) => `Using document "${documentName}" for "${requested}".`
+  );
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Get the Craft endpoints a tool call will reach
+ *
+ * @param tool - Tool definition
+ * @param config - Configuration scoped to the caller
+ * @param args - Parsed tool arguments
+ * @returns API endpoints of the documents the call names, or of all documents
+ */
+function getUpstreamEndpoints(
+  tool: ToolDefinition,
+  config: Config,
+  args: Record<string, any>
+): string[] {
+  if (tool.upstream === false) {
+    return [];
+  }
+
+  return getTargetDocuments(tool, config, args).map((doc) => doc.apiEndpoint);
+}
+
+/**
+ * Get the caller a rate limit applies to
+ *
+ * @param options - Call options
+ * @returns API key or OAuth user, or the session for anonymous callers
+ */
+function getRateLimitKey(options?: ToolCallOptions): string {
+  const principal = options?.principal;
+  if (principal && principal.kind !== "anonymous") {
+    return getPrincipalId(principal);
+  }
+  return options?.sessionId ? `session:${options.sessionId}` : ANONYMOUS.name;
+}
+
+/**
+ * Build the error returned for a call rejected by the rate limit
+ *
+ * @param rejection - Why the call was rejected
+ * @returns Tool call result with a `rate_limited` error
+ */
+function rateLimitedResult(rejection: RateLimitRejection): ToolCallResult {
+  const result = {
+    error: "rate_limited",
+    message: rejection.message,
+    retryAfterSeconds: rejection.retryAfterSeconds,
+  };
+  return {
+    result,
+    metadata: { size: JSON.stringify(result).length, truncated: false },
+    isError: true,
+  };
+}
+
+/**
+ * Validate arguments, run a tool and apply response size limits
+ *
+ * Calls that reach the Craft API are charged against the caller's rate
+ * limit (one token per document reached); rejected calls get a
+ * `rate_limited` error with `retryAfterSeconds`. The upstream concurrency
+ * cap applies to each Craft request the call makes (see requestWithRetry). Every call is counted in
+ * the metrics of src/metrics.ts, logged, and written to the audit log when
+ * it is enabled; error results carry the `requestId` of the call.
+ *
+ * @param config - Application configuration
+ * @param name - Tool name
+ * @param args - Raw tool arguments from the client
+ * @param options - Optional call settings
+ * @returns Tool result with size metadata
+ */
+export async function callTool(
+  config: Config,
+  name: string,
+  args: unknown,
+  options?: ToolCallOptions
+): Promise<ToolCallResult> {
+  // HTTP requests already have an ID; stdio calls get one of their own
+  const requestId = getRequestId() ?? createRequestId();
+
+  return runWithRequestId(requestId, async () => {
+    const startTime = Date.now();
+    const callResult = await runTool(config, name, args, options);
+    const durationMs = Date.now() - startTime;
+    const { metadata } = callResult;
+
+    // Tools report most failures as an `error` field in a normal result.
+    // Unknown names are counted together so clients can't add label values.
+    const error = callResult.result?.error;
+    const status: ToolCallStatus =
+      error === "rate_limited" ? "rate_limited" : callResult.isError || error ? "error" : "success";
+    const tool = getTool(name, config);
+    recordToolCall(
+      tool ? name : "unknown",
+      status,
+      metadata.truncated,
+      durationMs,
+      metadata.size
+    );
+
+    logger.info("Tool call", {
+      tool: name,
+      status,
+      durationMs,
+      size: metadata.size,
+      truncated: metadata.truncated,
+      paged: metadata.hasMore ?? false,
+      ...(error ? { error } : {}),
+    });
+
+    const principal = options?.principal;
+    const targets =
+      tool && args && typeof args === "object"
+        ? getTargetDocuments(
+            tool,
+            principal ? scopeConfig(config, principal) : config,
+            args as Record<string, any>
+          )
+        : [];
+    await recordAudit(config, {
+      time: new Date(startTime).toISOString(),
+      requestId,
+      caller: principal?.name ?? ANONYMOUS.name,
+      callerKind: principal?.kind ?? ANONYMOUS.kind,
+      sessionId: options?.sessionId,
+      tool: name,
+      arguments: args ?? {},
+      documents: targets.map((doc) => doc.name),
+      outcome: status,
+      ...(typeof error === "string" ? { error } : {}),
+      resultBytes: metadata.size,
+      durationMs,
+    });
+
+    // Error responses carry the request ID so they can be found in the logs
+    if (error) {
+      callResult.result = { ...callResult.result, requestId };
+    }
+
+    return callResult;
+  });
+}
+
+/**
+ * Run a tool call for callTool(), which records its metrics
+ */
+async function runTool(
+  config: Config,
+  name: string,
+  args: unknown,
+  options?: ToolCallOptions
+): Promise<ToolCallResult> {
+  const tool = getTool(name, config);
+
+  if (!tool) {
+    const result = { error: `Unknown tool: ${name}` };
+    return {
+      result,
+      metadata: { size: JSON.stringify(result).length, truncated: false },
+      isError: true,
+    };
+  }
+
+  const principal = options?.principal;
+
+  if (principal && !isToolAllowed(principal, name)) {
+    const result = {
+      error: `Tool "${name}" is not allowed for API key "${principal.name}"`,
+    };
+    return {
+      result,
+      metadata: { size: JSON.stringify(result).length, truncated: false },
+      isError: true,
+    };
+  }
+
+  try {
+    const parsed = tool.schema.parse(args ?? {});
+
+    // A restricted caller only sees its own documents
+    const scoped = principal ? scopeConfig(config, principal) : config;
+
+    // Aliases and close matches become the configured names
+    const { args: toolArgs, resolved } = resolveDocumentArguments(tool, scoped, parsed);
+
+    const endpoints = getUpstreamEndpoints(tool, scoped, toolArgs);
+    if (endpoints.length > 0) {
+      const rejection = checkRateLimit(getRateLimitKey(options), endpoints.length);
+      if (rejection) {
+        return rateLimitedResult(rejection);
+      }
+    }
+
+    const result = await tool.handler(scoped, toolArgs);
+    const maxResponseSize = options?.maxResponseSize ?? getMaxResponseSize();
+
+    // Page large results where the tool supports it, truncate otherwise
+    const { cursor, ...requestArgs } = parsed;
+    const { data, metadata } = tool.paginator
+      ? paginateResponse(
+          name,
+          requestArgs,
+          result,
+          tool.paginator,
+          maxResponseSize,
+          cursor
+        )
+      : truncateResponse(result, maxResponseSize);
+
+    // Report which document a loosely matched name was taken as
+    const isObject = data && typeof data === "object" && !Array.isArray(data);
+    const reported =
+      resolved.length > 0 && isObject && !data.error
+        ? { ...data, resolvedDocuments: resolved }
+        : data;
+
+    // Render Markdown or plain text on request; errors stay JSON
+    const output = parsed.output ?? "json";
+    const rendered =
+      tool.renderer && output !== "json" && !data?.error
+        ? describeResolved(resolved) +
+          tool.renderer(data, {
+            format: output,
+            includeBlockIds: parsed.includeBlockIds,
+          })
+        : reported;
+
+    return { result: rendered, metadata, isError: false };
+  } catch (error) {
+    const result = {
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+    return {
+      result,
+      metadata: { size: JSON.stringify(result).length, truncated: false },
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Shape a tool call result as an MCP `tools/call` response
+ *
+ * @param callResult - Result from callTool
+ * @returns MCP CallToolResult content
+ */
+export function toCallToolResult(callResult: ToolCallResult) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text:
+          typeof callResult.result === "string"
+            ? callResult.result
+            : JSON.stringify(callResult.result),
+      },
+    ],
+    ...(callResult.isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Read the response size limit from the environment
+ *
+ * @returns Maximum response size in bytes (default: 1MB)
+ */
+function getMaxResponseSize(): number {
+  return parseInt(process.env.MAX_RESPONSE_SIZE || "1048576", 10);
+}
@@ -0,0 +1,368 @@
+import type { Block } from "./types.js";
+
+/**
+ * Formats a read or search tool can answer in
+ */
+export type OutputFormat = "json" | "markdown" | "text";
+
+/**
+ * Options for rendering blocks
+ */
+export interface RenderOptions {
+  format: Exclude<OutputFormat, "json">;
+  includeBlockIds?: boolean;
+}
+
+/**
+ * Rendering state passed down the block tree
+ */
+interface RenderContext extends RenderOptions {
+  pageDepth: number; // number of page blocks above this block
+  listIndent: number; // nesting level inside lists
+}
+
+const HEADING_LEVELS: Record<string, number> = {
+  title: 1,
+  h1: 1,
+  h2: 2,
+  h3: 3,
+  h4: 4,
+};
+
+/**
+ * Get the text of a block, whichever field the API put it in
+ */
+function getBlockText(block: Block): string {
+  const value = block.markdown ?? block.content ?? block.text ?? block.title;
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Remove Markdown block syntax the API may already have put in the text,
+ * so it isn't doubled when the block type is rendered
+ */
+function stripBlockPrefix(text: string): string {
+  return text.replace(/^(#{1,6}\s+|\s*[-*+]\s+\[[ xX]\]\s+|\s*[-*+]\s+|\s*\d+[.)]\s+|>\s?)/, "");
+}
+
+/**
+ * Remove inline Markdown so only the readable text is left
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    .replace(/([*_])(\S.*?)\1/g, "$2")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+/**
+ * Get the readable text of a block, without any Markdown
+ *
+ * @param block - Block to read
+ * @returns Plain text content
+ */
+export function getPlainText(block: Block): string {
+  return stripInlineMarkdown(stripBlockPrefix(getBlockText(block))).trim();
+}
+
+/**
+ * Check whether a block is a page (or card) that contains other blocks
+ *
+ * @param block - Block to check
+ * @returns True for page and card blocks
+ */
+export function isPageBlock(block: Block): boolean {
+  return (
+    block.type === "page" ||
+    block.textStyle === "page" ||
+    block.textStyle === "card"
+  );
+}
+
+/**
+ * Get the heading level of a block
+ *
+ * @param block - Block to check
+ * @returns 1-4 for title and h1-h4 text styles, undefined otherwise
+ */
+export function getHeadingLevel(block: Block): number | undefined {
+  return HEADING_LEVELS[block.textStyle ?? ""];
+}
+
+/**
+ * Render an anchor carrying a block ID
+ */
+function anchor(block: Block, ctx: RenderContext): string {
+  return ctx.includeBlockIds && block.id ? ` {#${block.id}}` : "";
+}
+
+/**
+ * Get the cell text of a table cell in any of the shapes the API uses
+ */
+function getCellText(cell: any): string {
+  if (typeof cell === "string") {
+    return cell;
+  }
+  return cell ? getBlockText(cell) || String(cell.value ?? "") : "";
+}
+
+/**
+ * Render a table block as a GitHub-flavored Markdown table
+ */
+function renderTable(block: Block, ctx: RenderContext): string[] {
+  const rows: any[][] = block.rows ?? block.cells ?? [];
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const toLine = (row: any[]) =>
+    `| ${row.map((cell) => getCellText(cell).replace(/\|/g, "\\|")).join(" | ")} |`;
+
+  const lines = [toLine(rows[0])];
+  if (ctx.format === "markdown") {
+    lines.push(`| ${rows[0].map(() => "---").join(" | ")} |`);
+  }
+  lines.push(...rows.slice(1).map(toLine));
+  return lines;
+}
+
+/**
+ * Render one block (without its children) to lines of output
+ *
+ * @param block - Block to render
+ * @param ctx - Rendering state
+ * @param number - Position in a run of numbered list items
+ * @returns Rendered lines
+ */
+function renderBlock(block: Block, ctx: RenderContext, number: number): string[] {
+  const markdown = ctx.format === "markdown";
+  const type = block.type ?? "text";
+  const text = stripBlockPrefix(getBlockText(block));
+  const plain = markdown ? text : stripInlineMarkdown(text);
+  const indent = "  ".repeat(ctx.listIndent);
+
+  if (type === "code") {
+    const code = block.rawCode ?? block.code ?? getBlockText(block);
+    const lines = markdown
+      ? ["```" + (block.language ?? ""), code, "```"]
+      : [code];
+    return ctx.includeBlockIds ? [anchor(block, ctx).trim(), ...lines] : lines;
+  }
+
+  if (type === "table") {
+    const lines = renderTable(block, ctx);
+    return ctx.includeBlockIds ? [anchor(block, ctx).trim(), ...lines] : lines;
+  }
+
+  if (type === "line" || type === "divider") {
+    return [markdown ? "---" : ""];
+  }
+
+  if (type === "image") {
+    const url = block.url ?? block.src ?? "";
+    return [markdown ? `![${plain}](${url})${anchor(block, ctx)}` : `${plain} (${url})`];
+  }
+
+  if (type === "url" || type === "link" || type === "richUrl") {
+    const title = block.title || plain || block.url;
+    return [
+      markdown
+        ? `[${title}](${block.url})${anchor(block, ctx)}`
+        : `${title} (${block.url})${anchor(block, ctx)}`,
+    ];
+  }
+
+  if (isPageBlock(block)) {
+    const level = Math.min(ctx.pageDepth + 1, 6);
+    return [markdown ? `${"#".repeat(level)} ${plain}${anchor(block, ctx)}` : `${plain}${anchor(block, ctx)}`];
+  }
+
+  const headingLevel = getHeadingLevel(block);
+  if (headingLevel) {
+    const level = Math.min(headingLevel + ctx.pageDepth, 6);
+    return [markdown ? `${"#".repeat(level)} ${plain}${anchor(block, ctx)}` : `${plain}${anchor(block, ctx)}`];
+  }
+
+  const listStyle = block.listStyle;
+  if (listStyle === "todo" || listStyle === "task") {
+    const done = block.taskInfo?.state === "done" || block.checked === true;
+    return [`${indent}- [${done ? "x" : " "}] ${plain}${anchor(block, ctx)}`];
+  }
+  if (listStyle === "numbered") {
+    return [`${indent}${number}. ${plain}${anchor(block, ctx)}`];
+  }
+  if (listStyle === "bullet" || listStyle === "toggle") {
+    return [`${indent}- ${plain}${anchor(block, ctx)}`];
+  }
+
+  const decorations: string[] = block.decorations ?? [];
+  if (
+    type === "quote" ||
+    block.textStyle === "quote" ||
+    decorations.includes("quote") ||
+    decorations.includes("callout")
+  ) {
+    const lines = plain.split("\n");
+    lines[lines.length - 1] += anchor(block, ctx);
+    return markdown ? lines.map((line) => `> ${line}`) : lines;
+  }
+
+  return plain || ctx.includeBlockIds
+    ? [`${indent}${plain}${anchor(block, ctx)}`]
+    : [];
+}
+
+/**
+ * Render a list of sibling blocks and their children
+ */
+function renderSiblings(blocks: Block[], ctx: RenderContext): string[] {
+  const out: string[] = [];
+  let number = 0;
+  let previousList: string | undefined;
+
+  for (const block of blocks) {
+    const isList = Boolean(block.listStyle && block.listStyle !== "none");
+    const list = isList
+      ? block.listStyle === "numbered" ? "ordered" : "unordered"
+      : undefined;
+    number = list === "ordered" ? number + 1 : 0;
+
+    // Blank line between paragraphs, but keep items of one list together
+    if (out.length > 0 && !(list && list === previousList)) {
+      out.push("");
+    }
+
+    out.push(...renderBlock(block, ctx, number));
+
+    if (block.blocks && block.blocks.length > 0) {
+      const children = renderSiblings(block.blocks, {
+        ...ctx,
+        pageDepth: ctx.pageDepth + (isPageBlock(block) ? 1 : 0),
+        listIndent: isList ? ctx.listIndent + 1 : ctx.listIndent,
+      });
+
+      if (children.length > 0) {
+        if (!isList) {
+          out.push("");
+        }
+        out.push(...children);
+      }
+    }
+
+    previousList = list;
+  }
+
+  return out;
+}
+
+/**
+ * Render a Craft block tree as Markdown or plain text
+ *
+ * @param data - A block or a list of blocks, with nested `blocks`
+ * @param options - Output format and whether to keep block IDs as anchors
+ * @returns Rendered document
+ */
+export function renderBlocks(data: Block | Block[], options: RenderOptions): string {
+  const lines = renderSiblings(Array.isArray(data) ? data : [data], {
+    ...options,
+    pageDepth: 0,
+    listIndent: 0,
+  });
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Render the paging footer of a paginated result
+ */
+function renderPagination(result: any): string[] {
+  if (!result._pagination) {
+    return [];
+  }
+
+  const { offset, returned, total } = result._pagination;
+  const footer = [
+    "",
+    "---",
+    `Items ${offset + 1}-${offset + returned} of ${total}.`,
+  ];
+
+  if (result.nextCursor) {
+    footer.push(`nextCursor: ${result.nextCursor}`);
+  }
+
+  return footer;
+}
+
+/**
+ * Render a read_document or read_block result
+ *
+ * @param result - Tool result with `data` holding blocks
+ * @param options - Output format and anchor settings
+ * @returns Rendered document
+ */
+export function renderDocumentResult(result: any, options: RenderOptions): string {
+  return [
+    renderBlocks(result.data ?? [], options),
+    ...renderPagination(result),
+  ].join("\n");
+}
+
+/**
+ * Render a search_document result
+ *
+ * @param result - Tool result with a flat `results` list
+ * @param options - Output format and anchor settings
+ * @returns Rendered search hits
+ */
+export function renderSearchResult(result: any, options: RenderOptions): string {
+  const hits = (result.results ?? []).map((hit: any) =>
+    renderBlocks(hit.block, options)
+  );
+
+  return [
+    `${result.resultCount ?? hits.length} result(s) for "${result.query}" in ${result.documentName}`,
+    "",
+    hits.join("\n\n"),
+    ...renderPagination(result),
+  ].join("\n");
+}
+
+/**
+ * Render a search_all_notes result, one section per document
+ *
+ * @param result - Tool result with per-document `results` groups
+ * @param options - Output format and anchor settings
+ * @returns Rendered search hits
+ */
+export function renderAggregatedSearchResult(
+  result: any,
+  options: RenderOptions
+): string {
+  const markdown = options.format === "markdown";
+  const sections = (result.results ?? [])
+    .filter((group: any) => group.results?.length > 0)
+    .map((group: any) =>
+      [
+        markdown ? `## ${group.documentName}` : group.documentName,
+        "",
+        group.results
+          .map((hit: any) => renderBlocks(hit.block, options))
+          .join("\n\n"),
+      ].join("\n")
+    );
+
+  const errors = (result.errors ?? []).map(
+    (e: any) => `- ${e.documentName}: ${e.error}`
+  );
+
+  return [
+    `${result.totalResults} result(s) for "${result.query}" across ${result.documentsSearched} document(s)`,
+    "",
+    sections.join("\n\n"),
+    ...(errors.length > 0 ? ["", "Errors:", ...errors] : []),
+    ...renderPagination(result),
+  ].join("\n");
+}
@@ -0,0 +1,380 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { recordUpstreamRequest } from "./metrics.js";
+import { getRequestId, logger } from "./logger.js";
+import { acquireUpstreamSlot } from "./rate-limit.js";
+
+/**
+ * Retry settings for upstream Craft requests
+ */
+export interface RetryOptions {
+  retries: number; // extra attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before opening
+  resetTimeoutMs: number; // time spent open before a trial request
+}
+
+/**
+ * Circuit breaker state as reported by /health
+ */
+export interface CircuitState {
+  endpoint: string;
+  state: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryInMs?: number;
+}
+
+/**
+ * Error thrown when a request is rejected by an open circuit
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryInMs: number) {
+    super(
+      `Circuit open after repeated failures; retry in ${Math.ceil(retryInMs / 1000)}s`
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Read retry settings from the environment
+ *
+ * @returns Retry options with defaults applied
+ */
+export function getRetryOptions(): RetryOptions {
+  return {
+    retries: parseInt(process.env.CRAFT_RETRY_ATTEMPTS || "3", 10),
+    baseDelayMs: parseInt(process.env.CRAFT_RETRY_BASE_DELAY_MS || "250", 10),
+    maxDelayMs: parseInt(process.env.CRAFT_RETRY_MAX_DELAY_MS || "8000", 10),
+    timeoutMs: parseInt(process.env.CRAFT_REQUEST_TIMEOUT_MS || "30000", 10),
+  };
+}
+
+/**
+ * Read circuit breaker settings from the environment
+ *
+ * @returns Circuit breaker options with defaults applied
+ */
+export function getCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: parseInt(
+      process.env.CRAFT_CIRCUIT_FAILURE_THRESHOLD || "5",
+      10
+    ),
+    resetTimeoutMs: parseInt(process.env.CRAFT_CIRCUIT_RESET_MS || "30000", 10),
+  };
+}
+
+/**
+ * Per-endpoint circuit breaker
+ *
+ * Closed: requests flow normally. After `failureThreshold` consecutive
+ * failures the circuit opens and requests fail fast. Once `resetTimeoutMs`
+ * has passed a single trial request is let through (half-open); its outcome
+ * closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState["state"] = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Reserve permission to send a request
+   *
+   * @throws CircuitOpenError if the circuit is open
+   */
+  acquire(): void {
+    if (this.state === "closed") {
+      return;
+    }
+
+    const elapsed = Date.now() - this.openedAt;
+
+    if (this.state === "open" && elapsed >= this.options.resetTimeoutMs) {
+      this.state = "half-open";
+    }
+
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(
+      Math.max(this.options.resetTimeoutMs - elapsed, 0)
+    );
+  }
+
+  /**
+   * Record a request that reached a healthy endpoint
+   */
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a request that failed because of the endpoint
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Whether requests are currently being rejected
+   */
+  isOpen(): boolean {
+    return this.state === "open";
+  }
+
+  /**
+   * Current state for health reporting
+   */
+  snapshot(): CircuitState {
+    const retryInMs =
+      this.state === "open"
+        ? Math.max(this.options.resetTimeoutMs - (Date.now() - this.openedAt), 0)
+        : undefined;
+
+    return {
+      endpoint: redactEndpoint(this.endpoint),
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        this.state === "closed"
+          ? undefined
+          : new Date(this.openedAt).toISOString(),
+      retryInMs,
+    };
+  }
+}
+
+/**
+ * Circuit breakers by Craft API endpoint
+ */
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get (or create) the circuit breaker for an endpoint
+ *
+ * @param endpoint - Craft API base URL
+ * @returns Circuit breaker for that endpoint
+ */
+export function getCircuitBreaker(endpoint: string): CircuitBreaker {
+  let breaker = breakers.get(endpoint);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(endpoint, getCircuitBreakerOptions());
+    breakers.set(endpoint, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * Get the state of every circuit breaker created so far
+ *
+ * @returns Circuit states with share-link tokens masked
+ */
+export function getCircuitStates(): CircuitState[] {
+  return Array.from(breakers.values()).map((breaker) => breaker.snapshot());
+}
+
+/**
+ * Mask the share-link token of a Craft API endpoint
+ *
+ * @param endpoint - Craft API base URL
+ * @returns URL safe to show in health output
+ */
+export function redactEndpoint(endpoint: string): string {
+  return endpoint.replace(
+    /\/links\/([^/]+)/,
+    (_, token: string) => `/links/***${token.slice(-4)}`
+  );
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ *
+ * @param error - Error thrown by axios
+ * @param idempotent - Whether repeating the request is safe
+ * @returns True for 429, and for 5xx and network errors on idempotent requests
+ */
+function isRetryable(error: AxiosError, idempotent: boolean): boolean {
+  const status = error.response?.status;
+
+  if (status === 429) {
+    return true;
+  }
+
+  if (!idempotent) {
+    return false;
+  }
+
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Check whether a failed request counts against the endpoint's circuit
+ *
+ * @param error - Error thrown by axios
+ * @returns True for 5xx and network errors
+ */
+function isEndpointFailure(error: AxiosError): boolean {
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header
+ *
+ * @param value - Header value, either seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * Uses "full jitter" exponential backoff unless the server sent
+ * Retry-After, which is honored (capped at maxDelayMs).
+ *
+ * @param attempt - Zero-based attempt that just failed
+ * @param error - Error from that attempt
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+function getRetryDelay(
+  attempt: number,
+  error: AxiosError,
+  options: RetryOptions
+): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, options.maxDelayMs);
+  }
+
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.random() * ceiling;
+}
+
+/**
+ * Send a request to a Craft endpoint with retries and a circuit breaker
+ *
+ * Each attempt holds one of the endpoint's concurrency slots while it is in
+ * flight; backing off between attempts doesn't. The current request ID is
+ * sent as `X-Request-Id`.
+ *
+ * @param endpoint - Craft API base URL the request belongs to
+ * @param request - Axios request configuration
+ * @returns Axios response
+ * @throws The last axios error, CircuitOpenError when failing fast, or
+ *   UpstreamBusyError when no concurrency slot freed up in time
+ */
+export async function requestWithRetry<T>(
+  endpoint: string,
+  request: AxiosRequestConfig
+): Promise<AxiosResponse<T>> {
+  const options = getRetryOptions();
+  const breaker = getCircuitBreaker(endpoint);
+  const method = (request.method ?? "GET").toUpperCase();
+  const idempotent = method !== "POST";
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireUpstreamSlot(endpoint);
+    let delay = 0;
+
+    try {
+      breaker.acquire();
+      const startTime = Date.now();
+
+      try {
+        const requestId = getRequestId();
+        const response = await axios.request<T>({
+          timeout: options.timeoutMs,
+          ...request,
+          headers: {
+            ...request.headers,
+            ...(requestId ? { "X-Request-Id": requestId } : {}),
+          },
+        });
+        recordUpstreamRequest(endpoint, response.status, Date.now() - startTime);
+        breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        recordUpstreamRequest(
+          endpoint,
+          axiosError.response?.status ?? "error",
+          Date.now() - startTime
+        );
+
+        if (isEndpointFailure(axiosError)) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+
+        // Report the upstream error rather than failing fast on our own retry
+        if (
+          attempt >= options.retries ||
+          !isRetryable(axiosError, idempotent) ||
+          breaker.isOpen()
+        ) {
+          throw error;
+        }
+
+        delay = getRetryDelay(attempt, axiosError, options);
+        logger.warn("Craft request failed, retrying", {
+          method,
+          url: redactEndpoint(request.url ?? endpoint),
+          status: axiosError.response?.status ?? axiosError.code ?? "error",
+          retryInMs: Math.round(delay),
+        });
+      }
+    } finally {
+      release();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
@@ -0,0 +1,438 @@
+import { createHash } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Config, DocumentConfig } from "./types.js";
+import { ANONYMOUS, Principal, isToolAllowed, scopeConfig } from "./auth.js";
+import { ToolCallOptions, callTool } from "./registry.js";
+import { getDocumentPermission } from "./permissions.js";
+import { logger } from "./logger.js";
+
+/**
+ * Format of a resource's content
+ */
+export type ResourceFormat = "markdown" | "json";
+
+/**
+ * What a craft:// URI points at
+ */
+export interface ResourceAddress {
+  documentName: string;
+  blockId?: string;
+  format: ResourceFormat;
+}
+
+/**
+ * A client's subscription to a resource, and the hash of the content it
+ * was last polled with
+ */
+interface Subscription {
+  server: Server;
+  getConfig: () => Config;
+  principal: Principal;
+  sessionId?: string;
+  hash?: string;
+}
+
+/**
+ * A subscribed resource
+ */
+interface WatchedResource {
+  address: ResourceAddress;
+  subscriptions: Subscription[];
+}
+
+/**
+ * JSON-RPC error code for unknown resources, as defined by the MCP spec
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+const MIME_TYPES: Record<ResourceFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+};
+
+/**
+ * Templates clients can fill in to address documents and blocks
+ */
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "craft://{documentName}{?format}",
+    name: "craft-document",
+    title: "Craft document",
+    description:
+      'A whole Craft document, as Markdown (default) or as Craft blocks with "?format=json"',
+    mimeType: MIME_TYPES.markdown,
+  },
+  {
+    uriTemplate: "craft://{documentName}/block/{blockId}{?format}",
+    name: "craft-block",
+    title: "Craft block",
+    description:
+      'A block of a Craft document and its children, as Markdown (default) or as Craft blocks with "?format=json"',
+    mimeType: MIME_TYPES.markdown,
+  },
+];
+
+/**
+ * Subscribed resources by URI
+ */
+const watched = new Map<string, WatchedResource>();
+
+/**
+ * Timer polling subscribed resources while there are any
+ */
+let pollTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Whether a poll is running, so slow polls don't overlap
+ */
+let polling = false;
+
+/**
+ * Read the subscription poll interval from the environment
+ *
+ * @returns Milliseconds between checks of subscribed resources (default: 60 seconds)
+ */
+function getPollIntervalMs(): number {
+  return parseInt(process.env.RESOURCE_POLL_INTERVAL_SECONDS || "60", 10) * 1000;
+}
+
+/**
+ * Build the URI of a document or block
+ *
+ * @param documentName - Document name
+ * @param blockId - Block ID, for a block resource
+ * @returns craft:// URI with the name percent-encoded
+ */
+export function getResourceUri(documentName: string, blockId?: string): string {
+  const uri = `craft://${encodeURIComponent(documentName)}`;
+  return blockId ? `${uri}/block/${encodeURIComponent(blockId)}` : uri;
+}
+
+/**
+ * Parse a craft:// URI
+ *
+ * @param uri - URI from the client
+ * @returns Document, block and format, or undefined if the URI is malformed
+ */
+export function parseResourceUri(uri: string): ResourceAddress | undefined {
+  const match = uri.match(/^craft:\/\/([^/?#]+)(?:\/block\/([^/?#]+))?\/?(?:\?([^#]*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const format = new URLSearchParams(match[3] ?? "").get("format") ?? "markdown";
+  if (format !== "markdown" && format !== "json") {
+    return undefined;
+  }
+
+  try {
+    return {
+      documentName: decodeURIComponent(match[1]),
+      blockId: match[2] ? decodeURIComponent(match[2]) : undefined,
+      format,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the documents a caller may read as resources
+ *
+ * Resources are read with the read_document and read_block tools, so a
+ * caller whose API key doesn't allow those tools sees no resources.
+ *
+ * @param config - Application configuration
+ * @param principal - Caller, if authenticated
+ * @returns Readable documents
+ */
+function getReadableDocuments(config: Config, principal?: Principal): DocumentConfig[] {
+  if (!principal) {
+    return config.documents;
+  }
+
+  if (!isToolAllowed(principal, "read_document") && !isToolAllowed(principal, "read_block")) {
+    return [];
+  }
+  return scopeConfig(config, principal).documents;
+}
+
+/**
+ * List every configured document as a resource
+ *
+ * @param config - Application configuration
+ * @param principal - Caller, if authenticated; limits the documents listed
+ * @returns Resources for resources/list
+ */
+export function listResources(config: Config, principal?: Principal): Resource[] {
+  return getReadableDocuments(config, principal).map((doc) => ({
+    uri: getResourceUri(doc.name),
+    name: doc.name,
+    description: `Craft document (${getDocumentPermission(doc)} access)`,
+    mimeType: MIME_TYPES.markdown,
+  }));
+}
+
+/**
+ * List the resource templates
+ *
+ * @returns Templates for resources/templates/list
+ */
+export function listResourceTemplates(): ResourceTemplate[] {
+  return RESOURCE_TEMPLATES;
+}
+
+/**
+ * Find the document a URI points at, checking the caller may read it
+ *
+ * @throws McpError if the URI is malformed or the document unknown to the caller
+ */
+function resolveResource(
+  config: Config,
+  uri: string,
+  principal?: Principal
+): { address: ResourceAddress; doc: DocumentConfig } {
+  const address = parseResourceUri(uri);
+  if (!address) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid resource URI "${uri}": expected craft://{documentName} or craft://{documentName}/block/{blockId}`
+    );
+  }
+
+  const tool = address.blockId ? "read_block" : "read_document";
+  const doc = getReadableDocuments(config, principal).find(
+    (d) => d.name === address.documentName
+  );
+  if (!doc || (principal && !isToolAllowed(principal, tool))) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  return { address, doc };
+}
+
+/**
+ * Read a document or block resource
+ *
+ * Goes through the read_document or read_block tool, so the read is rate
+ * limited, counted in the metrics and audited like any tool call. The
+ * whole document is returned; resources aren't paged.
+ *
+ * @param config - Application configuration
+ * @param uri - craft:// URI
+ * @param options - Caller and session of the request
+ * @returns Resource contents for resources/read
+ * @throws McpError if the resource doesn't exist or can't be read
+ */
+export async function readResource(
+  config: Config,
+  uri: string,
+  options: ToolCallOptions = {}
+): Promise<ReadResourceResult> {
+  const { address } = resolveResource(config, uri, options.principal);
+
+  const { result, isError } = await callTool(
+    config,
+    address.blockId ? "read_block" : "read_document",
+    {
+      documentName: address.documentName,
+      ...(address.blockId ? { blockId: address.blockId } : {}),
+      output: address.format,
+    },
+    { ...options, maxResponseSize: Infinity }
+  );
+
+  if (result?.error === "rate_limited") {
+    throw new McpError(ErrorCode.InternalError, result.message, result);
+  }
+  if (isError || result?.error) {
+    throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${result?.error}`, result);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPES[address.format],
+        text: typeof result === "string" ? result : JSON.stringify(result),
+      },
+    ],
+  };
+}
+
+/**
+ * Read a resource for a subscriber and hash it, to notice changes
+ *
+ * Goes through callTool like readResource, so every poll is charged to the
+ * subscriber's rate limit, counted in the metrics and audited.
+ *
+ * @param uri - craft:// URI
+ * @param address - What the URI points at
+ * @param subscription - Subscriber the read is made for
+ * @returns Content hash, or undefined if the read failed or was rate limited
+ */
+async function hashResource(
+  uri: string,
+  address: ResourceAddress,
+  subscription: Subscription
+): Promise<string | undefined> {
+  const { result, isError } = await callTool(
+    subscription.getConfig(),
+    address.blockId ? "read_block" : "read_document",
+    {
+      documentName: address.documentName,
+      ...(address.blockId ? { blockId: address.blockId } : {}),
+    },
+    {
+      principal: subscription.principal,
+      sessionId: subscription.sessionId,
+      maxResponseSize: Infinity,
+    }
+  );
+
+  if (isError || result?.error) {
+    logger.warn("Failed to poll subscribed resource", {
+      uri,
+      caller: subscription.principal.name,
+      error: result?.error,
+    });
+    return undefined;
+  }
+  return createHash("sha256").update(JSON.stringify(result)).digest("hex");
+}
+
+/**
+ * Check every subscribed resource once and notify subscribers of changes
+ *
+ * Each subscriber's poll is its own read, so it counts against that
+ * caller's limits; reads within a document's cache TTL are served from the
+ * response cache. A subscriber over its rate limit is checked again on the
+ * next poll. Subscriptions of closed sessions, and of callers who lost
+ * access after a configuration reload, are dropped.
+ */
+async function pollResources(): Promise<void> {
+  for (const [uri, resource] of watched) {
+    resource.subscriptions = resource.subscriptions.filter(({ server, getConfig, principal }) => {
+      if (!server.transport) return false;
+      try {
+        resolveResource(getConfig(), uri, principal);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+
+    if (resource.subscriptions.length === 0) {
+      watched.delete(uri);
+      continue;
+    }
+
+    for (const subscription of resource.subscriptions) {
+      const hash = await hashResource(uri, resource.address, subscription);
+      if (!hash || hash === subscription.hash) {
+        continue;
+      }
+
+      const changed = subscription.hash !== undefined;
+      subscription.hash = hash;
+      if (!changed) {
+        continue;
+      }
+
+      logger.info("Subscribed resource changed", { uri, caller: subscription.principal.name });
+      subscription.server.sendResourceUpdated({ uri }).catch((error) => {
+        logger.warn("Failed to send resources/updated", { uri, error });
+      });
+    }
+  }
+
+  if (watched.size === 0) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+}
+
+/**
+ * Subscribe a session to changes of a resource
+ *
+ * Subscribed resources are read every RESOURCE_POLL_INTERVAL_SECONDS
+ * (default 60; reads may be served from the response cache) and the
+ * session gets notifications/resources/updated when the content changed.
+ * Each poll is a read_document or read_block call by the subscriber.
+ *
+ * @param server - MCP server of the session
+ * @param getConfig - Returns the current configuration
+ * @param uri - craft:// URI
+ * @param options - Caller and session subscribing
+ * @throws McpError if the resource doesn't exist for the caller
+ */
+export async function subscribeResource(
+  server: Server,
+  getConfig: () => Config,
+  uri: string,
+  options: ToolCallOptions = {}
+): Promise<void> {
+  const principal = options.principal ?? ANONYMOUS;
+  const { address } = resolveResource(getConfig(), uri, principal);
+
+  let resource = watched.get(uri);
+  if (!resource) {
+    resource = { address, subscriptions: [] };
+    watched.set(uri, resource);
+  }
+
+  if (!resource.subscriptions.some((subscription) => subscription.server === server)) {
+    const subscription: Subscription = {
+      server,
+      getConfig,
+      principal,
+      sessionId: options.sessionId,
+    };
+    resource.subscriptions.push(subscription);
+    // The first read only records the current content
+    subscription.hash = await hashResource(uri, address, subscription);
+  }
+
+  const intervalMs = getPollIntervalMs();
+  if (!pollTimer && intervalMs > 0) {
+    pollTimer = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      pollResources()
+        .catch((error) => {
+          logger.error("Failed to poll subscribed resources", { error });
+        })
+        .finally(() => {
+          polling = false;
+        });
+    }, intervalMs);
+    pollTimer.unref();
+  }
+}
+
+/**
+ * Cancel a session's subscription to a resource
+ *
+ * @param server - MCP server of the session
+ * @param uri - craft:// URI
+ */
+export function unsubscribeResource(server: Server, uri: string): void {
+  const resource = watched.get(uri);
+  if (!resource) {
+    return;
+  }
+
+  resource.subscriptions = resource.subscriptions.filter(
+    (subscription) => subscription.server !== server
+  );
+  if (resource.subscriptions.length === 0) {
+    watched.delete(uri);
+  }
+}
@@ -0,0 +1,441 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join } from "path";
+import { fileURLToPath } from "url";
+import type { Block, Config, DocumentConfig, SearchIndexConfig } from "./types.js";
+import { fetchBlocks } from "./craft-api.js";
+import { getPlainText, isPageBlock, getHeadingLevel } from "./render.js";
+import { stem } from "./stemmer.js";
+import { logger } from "./logger.js";
+
+// Get directory name for ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * A block as stored in the index
+ */
+interface IndexedBlock {
+  id: string;
+  path: string[]; // titles of enclosing pages and headings
+  text: string; // snippet shown in results
+  length: number; // number of indexed terms
+}
+
+/**
+ * Index of a single document; rebuilt as a whole when its content changes
+ */
+interface DocumentIndex {
+  contentHash: string;
+  indexedAt: number;
+  blocks: IndexedBlock[];
+  postings: Record<string, [number, number][]>; // term -> [block index, term frequency]
+}
+
+/**
+ * Index file layout
+ */
+interface IndexFile {
+  version: 1;
+  documents: Record<string, DocumentIndex>;
+}
+
+/**
+ * A block with text, as found by collectTextBlocks()
+ */
+export interface TextBlock {
+  block: Block;
+  text: string; // plain text
+  path: string[]; // titles of enclosing pages and headings
+  headingLevel?: number;
+}
+
+/**
+ * A ranked search hit
+ */
+export interface RankedResult {
+  documentName: string;
+  blockId: string;
+  score: number;
+  path: string[];
+  text: string;
+}
+
+const INDEX_VERSION = 1;
+const SNIPPET_LENGTH = 300;
+const PATH_ENTRY_LENGTH = 80;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have he her his i if in into is it its " +
+    "me my no not of on or our she so that the their them then there these they this " +
+    "to was we were what when where which who will with you your"
+  ).split(" ")
+);
+
+/**
+ * Split text into lowercase, stemmed terms without stopwords
+ *
+ * @param text - Text to tokenize
+ * @returns Index terms
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) => stem(token));
+}
+
+/**
+ * Walk a block tree in document order and list every block that has text,
+ * with the titles of the pages and headings it sits under
+ *
+ * @param data - A block or a list of blocks, with nested `blocks`
+ * @returns Text blocks with their breadcrumb path
+ */
+export function collectTextBlocks(data: Block | Block[]): TextBlock[] {
+  const out: TextBlock[] = [];
+
+  const visit = (siblings: Block[], path: string[]) => {
+    const headings: { level: number; title: string }[] = [];
+
+    for (const block of siblings) {
+      const text = getPlainText(block);
+      const headingLevel = getHeadingLevel(block);
+
+      if (headingLevel) {
+        while (headings.length > 0 && headings[headings.length - 1].level >= headingLevel) {
+          headings.pop();
+        }
+      }
+
+      const blockPath = [...path, ...headings.map((h) => h.title)];
+
+      if (text && block.id) {
+        out.push({ block, text, path: blockPath, headingLevel });
+      }
+
+      if (headingLevel) {
+        headings.push({ level: headingLevel, title: text.slice(0, PATH_ENTRY_LENGTH) });
+      }
+
+      if (block.blocks && block.blocks.length > 0) {
+        const childPath =
+          isPageBlock(block) || text
+            ? [...blockPath, text.slice(0, PATH_ENTRY_LENGTH)]
+            : blockPath;
+        visit(block.blocks, childPath.filter(Boolean));
+      }
+    }
+  };
+
+  visit(Array.isArray(data) ? data : [data], []);
+  return out;
+}
+
+/**
+ * Build the postings of a document from its block tree
+ */
+function indexBlocks(data: Block | Block[]): Omit<DocumentIndex, "contentHash" | "indexedAt"> {
+  const blocks: IndexedBlock[] = [];
+  const postings: Record<string, [number, number][]> = {};
+
+  for (const { block, text, path } of collectTextBlocks(data)) {
+    const terms = tokenize(text);
+    if (terms.length === 0) continue;
+
+    const index = blocks.length;
+    blocks.push({
+      id: block.id,
+      path,
+      text: text.slice(0, SNIPPET_LENGTH),
+      length: terms.length,
+    });
+
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    for (const [term, count] of counts) {
+      (postings[term] ??= []).push([index, count]);
+    }
+  }
+
+  return { blocks, postings };
+}
+
+/**
+ * Hash a fetched document so unchanged content isn't re-indexed
+ *
+ * @param data - Block tree returned by fetchBlocks()
+ * @returns Hex SHA-256 of the serialized tree
+ */
+export function hashContent(data: unknown): string {
+  return createHash("sha256").update(JSON.stringify(data)).digest("hex");
+}
+
+/**
+ * Read a JSON index file
+ *
+ * @param path - File path
+ * @returns Parsed contents, or undefined if the file is missing or unreadable
+ */
+export async function readIndexFile(path: string): Promise<any> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger.warn("Ignoring unreadable index", { path, error });
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Write a JSON index file atomically
+ *
+ * The data goes to a temporary file first, so a crash never leaves a torn index.
+ *
+ * @param path - File path
+ * @param data - Data to serialize
+ */
+export async function writeIndexFile(path: string, data: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data), "utf-8");
+  await rename(tempPath, path);
+}
+
+/**
+ * Resolve an index path from config.json against the project root
+ *
+ * @param configured - Absolute or project-relative path
+ * @returns Absolute path
+ */
+export function resolveIndexPath(configured: string): string {
+  return isAbsolute(configured) ? configured : join(__dirname, "..", configured);
+}
+
+/**
+ * Local inverted index over all configured documents with BM25 ranking
+ *
+ * Each document is indexed from fetchBlocks() output. Documents are
+ * re-fetched once their entry is older than the refresh interval and only
+ * re-indexed when their content hash changed. The index is persisted as
+ * JSON so restarts don't have to re-index everything.
+ */
+export class SearchIndex {
+  private file: IndexFile = { version: INDEX_VERSION, documents: {} };
+  private loaded = false;
+  private refreshing?: Promise<unknown>;
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Bring the index up to date with the configured documents
+   *
+   * Concurrent refreshes run one after another, so a document is only
+   * fetched once even if several calls find it stale.
+   *
+   * @param config - Application configuration
+   * @param refreshIntervalMs - Age after which a document is re-fetched
+   * @returns Errors for documents that could not be fetched
+   */
+  refresh(config: Config, refreshIntervalMs: number): Promise<string[]> {
+    const refresh = (this.refreshing ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.doRefresh(config, refreshIntervalMs));
+    this.refreshing = refresh;
+    return refresh;
+  }
+
+  private async doRefresh(config: Config, refreshIntervalMs: number): Promise<string[]> {
+    await this.load();
+
+    const now = Date.now();
+    const errors: string[] = [];
+    let changed = false;
+
+    const stale = config.documents.filter((doc) => {
+      const entry = this.file.documents[doc.name];
+      return !entry || now - entry.indexedAt >= refreshIntervalMs;
+    });
+
+    const results = await Promise.allSettled(
+      stale.map((doc) => this.refreshDocument(doc, now))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        changed ||= result.value;
+      } else {
+        errors.push(`${stale[index].name}: ${result.reason?.message ?? "Unknown error"}`);
+      }
+    });
+
+    if (changed) {
+      await this.save();
+    }
+
+    return errors;
+  }
+
+  /**
+   * Re-fetch a document and re-index it if its content changed
+   *
+   * @returns True if the index entry was replaced
+   */
+  private async refreshDocument(doc: DocumentConfig, now: number): Promise<boolean> {
+    const result = await fetchBlocks(
+      doc.apiEndpoint,
+      { fetchMetadata: true },
+      { ttlSeconds: doc.cacheTtlSeconds }
+    );
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || "Unknown error");
+    }
+
+    const contentHash = hashContent(result.data);
+    const existing = this.file.documents[doc.name];
+
+    // Not saved on its own: after a restart the document is fetched once more
+    if (existing?.contentHash === contentHash) {
+      existing.indexedAt = now;
+      return false;
+    }
+
+    this.file.documents[doc.name] = {
+      contentHash,
+      indexedAt: now,
+      ...indexBlocks(result.data),
+    };
+    return true;
+  }
+
+  /**
+   * Rank indexed blocks against a query with BM25
+   *
+   * @param query - Free-text query
+   * @param topK - Maximum number of results
+   * @param documentNames - Restrict results to these documents
+   * @returns Best matching blocks, highest score first
+   */
+  search(query: string, topK: number, documentNames?: string[]): RankedResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const documents = Object.entries(this.file.documents).filter(
+      ([name]) => !documentNames || documentNames.includes(name)
+    );
+
+    // Corpus statistics across all searched documents
+    let blockCount = 0;
+    let totalLength = 0;
+    const documentFrequency = new Map<string, number>();
+
+    for (const [, index] of documents) {
+      blockCount += index.blocks.length;
+      totalLength += index.blocks.reduce((sum, block) => sum + block.length, 0);
+      for (const term of terms) {
+        documentFrequency.set(
+          term,
+          (documentFrequency.get(term) ?? 0) + (index.postings[term]?.length ?? 0)
+        );
+      }
+    }
+
+    const averageLength = blockCount > 0 ? totalLength / blockCount : 0;
+    const results: RankedResult[] = [];
+
+    for (const [documentName, index] of documents) {
+      const scores = new Map<number, number>();
+
+      for (const term of terms) {
+        const df = documentFrequency.get(term) ?? 0;
+        if (df === 0) continue;
+
+        const idf = Math.log(1 + (blockCount - df + 0.5) / (df + 0.5));
+
+        for (const [blockIndex, tf] of index.postings[term] ?? []) {
+          const length = index.blocks[blockIndex].length;
+          const score =
+            (idf * tf * (K1 + 1)) /
+            (tf + K1 * (1 - B + (B * length) / averageLength));
+          scores.set(blockIndex, (scores.get(blockIndex) ?? 0) + score);
+        }
+      }
+
+      for (const [blockIndex, score] of scores) {
+        const block = index.blocks[blockIndex];
+        results.push({
+          documentName,
+          blockId: block.id,
+          score: Math.round(score * 1000) / 1000,
+          path: block.path,
+          text: block.text,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Summary of what is indexed
+   */
+  stats() {
+    return Object.entries(this.file.documents).map(([documentName, index]) => ({
+      documentName,
+      blocks: index.blocks.length,
+      indexedAt: new Date(index.indexedAt).toISOString(),
+    }));
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const file = await readIndexFile(this.path);
+    if (file?.version === INDEX_VERSION && file.documents) {
+      this.file = file;
+    }
+  }
+
+  private async save(): Promise<void> {
+    await writeIndexFile(this.path, this.file);
+  }
+}
+
+/**
+ * Search indexes by file path
+ */
+const indexes = new Map<string, SearchIndex>();
+
+/**
+ * Check whether the local search index is enabled
+ *
+ * @param config - Application configuration
+ * @returns True if `searchIndex.enabled` is set
+ */
+export function isSearchIndexEnabled(config: Config): boolean {
+  return config.searchIndex?.enabled === true;
+}
+
+/**
+ * Get the search index for a configuration
+ *
+ * @param settings - `searchIndex` section of config.json
+ * @returns Shared index instance for the configured path
+ */
+export function getSearchIndex(settings: SearchIndexConfig = {}): SearchIndex {
+  const path = resolveIndexPath(settings.path ?? ".craft-index/bm25.json");
+
+  let index = indexes.get(path);
+  if (!index) {
+    index = new SearchIndex(path);
+    indexes.set(path, index);
+  }
+  return index;
+}
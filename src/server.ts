@@ -1,53 +1,356 @@
-import express, { Request, Response, Application } from "express";
+import express, { Request, Response, NextFunction, Application } from "express";
 import cors from "cors";
+import { randomUUID } from "crypto";
 import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getCircuitStates } from "./resilience.js";
+import { getCacheStats } from "./cache.js";
+import { InMemoryEventStore } from "./event-store.js";
+import { renderMetrics } from "./metrics.js";
+import { createRequestId, getRequestId, logger, runWithRequestId } from "./logger.js";
+import {
+  AuthResult,
+  Principal,
+  authenticate,
+  extractCredential,
+  getPrincipalId,
+  safeEqual,
+} from "./auth.js";
+import {
+  CraftOAuthProvider,
+  authenticateWithOAuth,
+  createOAuthRouter,
+  getResourceMetadataUrl,
+  isOAuthEnabled,
+} from "./oauth.js";
+import type { Config } from "./types.js";
 
 /**
- * Store active SSE connections
+ * A client session with its own MCP server instance
  */
-const connections = new Map<string, SSEServerTransport>();
-let connectionIdCounter = 0;
+interface Session<T> {
+  transport: T;
+  server: McpServer;
+  principal: Principal; // only this caller may use the session
+  lastActivity: number;
+  eventStore?: InMemoryEventStore; // Streamable HTTP messages kept for replay
+}
+
+/**
+ * Active SSE sessions by the session ID the transport advertises
+ */
+const connections = new Map<string, Session<SSEServerTransport>>();
+
+/**
+ * Active Streamable HTTP sessions by their Mcp-Session-Id
+ */
+const httpSessions = new Map<string, Session<StreamableHTTPServerTransport>>();
+
+/**
+ * How often idle sessions are looked for
+ */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Read the SSE idle timeout from the environment
+ *
+ * @returns Milliseconds without a message after which a session is closed (default: 30 minutes)
+ */
+function getSessionIdleTimeoutMs(): number {
+  return parseInt(process.env.SSE_SESSION_IDLE_TIMEOUT_MS || "1800000", 10);
+}
+
+/**
+ * Read the token Prometheus sends to /metrics
+ *
+ * @returns METRICS_TOKEN, or undefined to require the usual MCP credentials
+ */
+function getMetricsToken(): string | undefined {
+  return process.env.METRICS_TOKEN || undefined;
+}
+
+/**
+ * Send a JSON-RPC error response for a request that never reached a session
+ */
+function sendJsonRpcError(
+  res: Response,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message, data: { requestId: getRequestId() } },
+    id: null,
+  });
+}
+
+/**
+ * Check that a request comes from the caller that opened the session
+ *
+ * @returns False (after sending a 403) if the session belongs to someone else
+ */
+function checkSessionOwner(
+  session: Session<unknown>,
+  res: Response
+): boolean {
+  const principal: Principal = res.locals.principal;
+
+  if (getPrincipalId(session.principal) !== getPrincipalId(principal)) {
+    sendJsonRpcError(res, 403, -32001, "Forbidden: session belongs to another caller");
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Close sessions that have been idle for longer than the timeout
+ *
+ * @param idleTimeoutMs - Maximum idle time in milliseconds
+ */
+function closeIdleSessions(idleTimeoutMs: number): void {
+  const now = Date.now();
+
+  for (const sessions of [connections, httpSessions] as Map<string, Session<unknown>>[]) {
+    for (const [sessionId, session] of sessions) {
+      if (now - session.lastActivity > idleTimeoutMs) {
+        logger.info("Closing idle session", { sessionId });
+        sessions.delete(sessionId);
+        session.eventStore?.clear();
+        session.server.close().catch((error) => {
+          logger.error("Error closing session", { sessionId, error });
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Get the MCP servers of all open sessions, e.g. to notify their clients
+ *
+ * @returns One server per SSE connection and Streamable HTTP session
+ */
+export function getSessionServers(): McpServer[] {
+  return [...connections.values(), ...httpSessions.values()].map((session) => session.server);
+}
 
 /**
  * Create Express app with MCP endpoints (for Lambda or standalone)
  *
- * @param server - The MCP server instance
- * @param apiKey - Optional API key for authentication
+ * Serves the Streamable HTTP transport on /mcp and the older SSE transport
+ * on /sse + /messages. Every session gets its own MCP server from
+ * `createServer`: SSE messages are routed by the `sessionId` query
+ * parameter the transport advertised in its `endpoint` event, Streamable
+ * HTTP requests by their `Mcp-Session-Id` header.
+ *
+ * When API keys are configured (see src/auth.ts), every MCP request must
+ * carry one, and a session can only be used with the key that opened it.
+ * When OAuth is enabled (see src/oauth.ts), the app is also its own
+ * authorization server and accepts the access tokens it issued.
+ *
+ * API keys and metrics labels follow the current configuration on every
+ * request, so a reloaded config.json applies without a restart; OAuth
+ * settings are read once.
+ *
+ * @param createServer - Creates an MCP server instance for a new session of a caller
+ * @param getConfig - Returns the current configuration, for the API keys, OAuth and metrics labels
  * @returns Express application
  */
 export function createExpressApp(
-  server: McpServer,
-  apiKey?: string
+  createServer: (principal: Principal) => McpServer,
+  getConfig: () => Config
 ): Application {
   const app = express();
 
   // Middleware
-  app.use(cors());
+  app.use(cors({ exposedHeaders: ["X-Request-Id", "Mcp-Session-Id"] }));
   app.use(express.json());
 
+  // Give every request an ID (or keep the caller's X-Request-Id) for the
+  // logs, Craft API calls and error responses. This runs after body
+  // parsing so the ID stays attached through the route handlers.
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const requestId = createRequestId(req.header("x-request-id"));
+    res.setHeader("X-Request-Id", requestId);
+    runWithRequestId(requestId, next);
+  });
+
+  // Close sessions whose clients went away without closing the stream
+  const idleTimeoutMs = getSessionIdleTimeoutMs();
+  if (idleTimeoutMs > 0) {
+    setInterval(
+      () => closeIdleSessions(idleTimeoutMs),
+      Math.min(SWEEP_INTERVAL_MS, idleTimeoutMs)
+    ).unref();
+  }
+
+  // OAuth discovery, registration, authorization and token endpoints
+  const config = getConfig();
+  const oauth = isOAuthEnabled(config) ? new CraftOAuthProvider(config, getConfig) : undefined;
+  let challenge = 'Bearer realm="craft-mcp"';
+  if (oauth) {
+    app.use(createOAuthRouter(oauth));
+    challenge += `, resource_metadata="${getResourceMetadataUrl(oauth)}"`;
+  }
+
+  /**
+   * Identify the caller of a request
+   */
+  const identify = async (req: Request): Promise<AuthResult> =>
+    oauth
+      ? authenticateWithOAuth(getConfig(), oauth, req.headers, req.query)
+      : authenticate(getConfig(), req.headers, req.query);
+
+  /**
+   * Identify the caller of an MCP request, or answer 401
+   */
+  const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+    const auth = await identify(req);
+
+    if (!auth.principal) {
+      res.setHeader("WWW-Authenticate", challenge);
+      res.status(401).json({ error: auth.error, requestId: getRequestId() });
+      return;
+    }
+
+    res.locals.principal = auth.principal;
+    next();
+  };
+
+  /**
+   * Let Prometheus in with METRICS_TOKEN if set, otherwise like MCP requests
+   */
+  const requireMetricsAuth = (req: Request, res: Response, next: NextFunction) => {
+    const token = getMetricsToken();
+    if (!token) {
+      return requireAuth(req, res, next);
+    }
+
+    const credential = extractCredential(req.headers);
+    if (!credential || !safeEqual(credential, token)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="craft-mcp-metrics"');
+      res.status(401).json({ error: "Invalid metrics token", requestId: getRequestId() });
+      return;
+    }
+    next();
+  };
+
   /**
    * Health check endpoint
+   *
+   * Anyone gets the status; sessions, circuits and cache statistics are
+   * only shown to callers who could also use /mcp.
    */
-  app.get("/health", (req: Request, res: Response) => {
+  app.get("/health", async (req: Request, res: Response) => {
+    const circuits = getCircuitStates();
+    const status = circuits.some((c) => c.state !== "closed") ? "degraded" : "ok";
+
+    if (!(await identify(req)).principal) {
+      res.json({ status });
+      return;
+    }
+
     res.json({
-      status: "ok",
-      activeConnections: connections.size,
+      status,
+      activeConnections: connections.size + httpSessions.size,
+      sessions: { sse: connections.size, http: httpSessions.size },
+      circuits,
+      cache: getCacheStats(),
     });
   });
 
   /**
-   * SSE endpoint for server-to-client messages
+   * Prometheus metrics endpoint
    */
-  app.get("/sse", async (req: Request, res: Response) => {
-    // Optional authentication
-    if (apiKey) {
-      const providedKey = req.query.api_key as string;
-      if (providedKey !== apiKey) {
-        res.status(401).send("Unauthorized: Invalid API key");
+  app.get("/metrics", requireMetricsAuth, (req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(
+      renderMetrics(getConfig(), { sse: connections.size, http: httpSessions.size })
+    );
+  });
+
+  /**
+   * Streamable HTTP endpoint: POST for client messages, GET for the
+   * server-to-client stream (resumable with Last-Event-ID), DELETE to end
+   * the session
+   */
+  app.all("/mcp", requireAuth, async (req: Request, res: Response) => {
+    const principal: Principal = res.locals.principal;
+    const sessionId = req.header("mcp-session-id");
+    let session = sessionId ? httpSessions.get(sessionId) : undefined;
+
+    if (sessionId && !session) {
+      sendJsonRpcError(
+        res,
+        404,
+        -32001,
+        "Session not found: it expired or was terminated; initialize a new session"
+      );
+      return;
+    }
+
+    if (!session) {
+      if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+        sendJsonRpcError(
+          res,
+          400,
+          -32000,
+          "Bad Request: Mcp-Session-Id header is required except for initialize requests"
+        );
         return;
       }
+
+      // New session: the transport assigns the ID while handling initialize
+      const server = createServer(principal);
+      const eventStore = new InMemoryEventStore();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore,
+        onsessioninitialized: (newSessionId) => {
+          httpSessions.set(newSessionId, {
+            transport,
+            server,
+            principal,
+            lastActivity: Date.now(),
+            eventStore,
+          });
+          logger.info("HTTP session started", { sessionId: newSessionId, principal: principal.name });
+        },
+      });
+
+      // Terminating the session (DELETE) or closing the server ends it
+      server.onclose = () => {
+        eventStore.clear();
+        if (transport.sessionId && httpSessions.delete(transport.sessionId)) {
+          logger.info("HTTP session closed", { sessionId: transport.sessionId });
+        }
+      };
+
+      await server.connect(transport);
+      session = { transport, server, principal, lastActivity: Date.now(), eventStore };
+    } else if (!checkSessionOwner(session, res)) {
+      return;
+    }
+
+    session.lastActivity = Date.now();
+
+    try {
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error("Error handling MCP request", { error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
     }
+  });
+
+  /**
+   * SSE endpoint for server-to-client messages
+   */
+  app.get("/sse", requireAuth, async (req: Request, res: Response) => {
+    const principal: Principal = res.locals.principal;
 
     // Set SSE headers
     res.setHeader("Content-Type", "text/event-stream");
@@ -55,55 +358,76 @@ export function createExpressApp(
     res.setHeader("Connection", "keep-alive");
     res.setHeader("Access-Control-Allow-Origin", "*");
 
-    // Create connection ID and transport
-    const connectionId = `conn-${++connectionIdCounter}`;
+    // Create a transport and a server of its own for this client
     const transport = new SSEServerTransport("/messages", res);
-    connections.set(connectionId, transport);
-
-    console.log(`Client connected: ${connectionId}`);
-
-    // Connect the MCP server to this transport
-    await server.connect(transport);
+    const server = createServer(principal);
+    const sessionId = transport.sessionId;
 
-    // Handle connection close
-    req.on("close", () => {
-      connections.delete(connectionId);
-      console.log(`Client disconnected: ${connectionId}`);
+    connections.set(sessionId, {
+      transport,
+      server,
+      principal,
+      lastActivity: Date.now(),
     });
 
+    // Closing the stream or the server ends the session
+    server.onclose = () => {
+      if (connections.delete(sessionId)) {
+        logger.info("SSE client disconnected", { sessionId });
+      }
+    };
+
     // Handle errors
     res.on("error", (error) => {
-      console.error(`SSE error for ${connectionId}:`, error);
-      connections.delete(connectionId);
+      logger.error("SSE stream error", { sessionId, error });
+      connections.delete(sessionId);
     });
+
+    logger.info("SSE client connected", { sessionId, principal: principal.name });
+
+    // Connect the MCP server to this transport (sends the endpoint event)
+    await server.connect(transport);
   });
 
   /**
    * POST endpoint for client-to-server JSON-RPC 2.0 messages
    */
-  app.post("/messages", async (req: Request, res: Response) => {
-    // Get the most recent active transport
-    const activeTransports = Array.from(connections.values());
+  app.post("/messages", requireAuth, async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId;
 
-    if (activeTransports.length === 0) {
-      res.status(503).json({
-        error: "No active SSE connection found",
-      });
+    if (typeof sessionId !== "string" || sessionId === "") {
+      sendJsonRpcError(res, 400, -32600, "Bad Request: sessionId query parameter is required");
+      return;
+    }
+
+    const session = connections.get(sessionId);
+
+    if (!session) {
+      sendJsonRpcError(
+        res,
+        404,
+        -32001,
+        "Session not found: it expired or was closed; reconnect to /sse"
+      );
       return;
     }
 
-    // Use the last connected transport
-    const transport = activeTransports[activeTransports.length - 1];
+    if (!checkSessionOwner(session, res)) {
+      return;
+    }
+
+    session.lastActivity = Date.now();
 
     try {
       // Forward the message to the transport
       // Explicitly pass req.body to fix SDK issue
-      await transport.handlePostMessage(req, res, req.body);
+      await session.transport.handlePostMessage(req, res, req.body);
     } catch (error) {
-      console.error("Error handling POST message:", error);
+      logger.error("Error handling SSE message", { sessionId, error });
       if (!res.headersSent) {
         res.status(500).json({
           error: "Internal server error",
+          requestId: getRequestId(),
         });
       }
     }
@@ -113,24 +437,32 @@ export function createExpressApp(
 }
 
 /**
- * Start the Express server with SSE transport for MCP
+ * Start the Express server with the Streamable HTTP and SSE transports for MCP
  *
- * @param server - The MCP server instance
+ * @param createServer - Creates an MCP server instance per session
  * @param port - Port to listen on
- * @param apiKey - Optional API key for authentication
+ * @param getConfig - Returns the current configuration, for the API keys and OAuth
  */
-export async function startSSEServer(
-  server: McpServer,
+export async function startHttpServer(
+  createServer: (principal: Principal) => McpServer,
   port: number,
-  apiKey?: string
+  getConfig: () => Config
 ): Promise<void> {
-  const app = createExpressApp(server, apiKey);
+  const app = createExpressApp(createServer, getConfig);
 
   // Start the server
   app.listen(port, () => {
-    console.log(`MCP SSE Server started on port ${port}`);
-    console.log(`SSE endpoint: http://localhost:${port}/sse`);
-    console.log(`Messages endpoint: http://localhost:${port}/messages`);
-    console.log(`Health check: http://localhost:${port}/health`);
+    const baseUrl = `http://localhost:${port}`;
+    logger.info("MCP HTTP Server started", {
+      port,
+      mcp: `${baseUrl}/mcp`,
+      sse: `${baseUrl}/sse`,
+      messages: `${baseUrl}/messages`,
+      health: `${baseUrl}/health`,
+      metrics: `${baseUrl}/metrics`,
+      ...(isOAuthEnabled(getConfig())
+        ? { oauthMetadata: `${baseUrl}/.well-known/oauth-authorization-server` }
+        : {}),
+    });
   });
 }
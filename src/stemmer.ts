@@ -0,0 +1,202 @@
+/**
+ * Porter stemmer (M.F. Porter, "An algorithm for suffix stripping", 1980)
+ *
+ * Reduces English words to a common stem so "meetings", "meeting" and
+ * "meet" match each other in the search index.
+ */
+
+/**
+ * Check whether the letter at position i is a consonant
+ */
+function isConsonant(word: string, i: number): boolean {
+  const c = word[i];
+  if ("aeiou".includes(c)) {
+    return false;
+  }
+  if (c === "y") {
+    return i === 0 || !isConsonant(word, i - 1);
+  }
+  return true;
+}
+
+/**
+ * Measure of a stem: the number of vowel-consonant sequences in it
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const n = stem.length;
+
+  while (i < n && isConsonant(stem, i)) i++;
+  while (i < n) {
+    while (i < n && !isConsonant(stem, i)) i++;
+    if (i >= n) break;
+    m++;
+    while (i < n && isConsonant(stem, i)) i++;
+  }
+
+  return m;
+}
+
+function containsVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1)
+  );
+}
+
+/**
+ * Consonant-vowel-consonant ending where the last consonant isn't w, x or y
+ */
+function endsWithCVC(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !"wxy".includes(word[n - 1])
+  );
+}
+
+/**
+ * Replace the first matching suffix whose stem has a measure above minMeasure
+ */
+function replaceSuffix(
+  word: string,
+  rules: [string, string][],
+  minMeasure: number
+): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2_RULES: [string, string][] = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["abli", "able"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+];
+
+const STEP3_RULES: [string, string][] = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4_SUFFIXES = [
+  "al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment",
+  "ent", "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize",
+];
+
+/**
+ * Stem an English word
+ *
+ * @param input - Lowercase word
+ * @returns Stem of the word
+ */
+export function stem(input: string): string {
+  if (input.length <= 2) {
+    return input;
+  }
+
+  let word = input;
+
+  // Step 1a: plurals
+  if (word.endsWith("sses")) word = word.slice(0, -2);
+  else if (word.endsWith("ies")) word = word.slice(0, -2);
+  else if (!word.endsWith("ss") && word.endsWith("s")) word = word.slice(0, -1);
+
+  // Step 1b: -ed and -ing
+  let step1bExtra = false;
+  if (word.endsWith("eed")) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else if (word.endsWith("ed") && containsVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    step1bExtra = true;
+  } else if (word.endsWith("ing") && containsVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    step1bExtra = true;
+  }
+
+  if (step1bExtra) {
+    if (word.endsWith("at") || word.endsWith("bl") || word.endsWith("iz")) {
+      word += "e";
+    } else if (endsWithDoubleConsonant(word) && !"lsz".includes(word[word.length - 1])) {
+      word = word.slice(0, -1);
+    } else if (measure(word) === 1 && endsWithCVC(word)) {
+      word += "e";
+    }
+  }
+
+  // Step 1c: y -> i
+  if (word.endsWith("y") && containsVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + "i";
+  }
+
+  // Steps 2 and 3: double and single suffixes
+  word = replaceSuffix(word, STEP2_RULES, 0);
+  word = replaceSuffix(word, STEP3_RULES, 0);
+
+  // Step 4: remove suffixes from long stems
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (
+        measure(stem) > 1 &&
+        (suffix !== "ion" || stem.endsWith("s") || stem.endsWith("t"))
+      ) {
+        word = stem;
+      }
+      break;
+    }
+  }
+
+  // Step 5a: final -e
+  if (word.endsWith("e")) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCVC(stem))) {
+      word = stem;
+    }
+  }
+
+  // Step 5b: -ll
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith("l")) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
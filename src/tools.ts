@@ -1,5 +1,30 @@
-import type { Config, DocumentConfig, AggregatedSearchResult, ResponseMetadata } from "./types.js";
-import { fetchBlocks, searchBlocks } from "./craft-api.js";
+import type {
+  Config,
+  DocumentConfig,
+  DocumentPermission,
+  AggregatedSearchResult,
+  ResponseMetadata,
+} from "./types.js";
+import {
+  fetchBlocks,
+  searchBlocks,
+  insertBlocks,
+  updateBlocks,
+  deleteBlocks,
+} from "./craft-api.js";
+import { getDocumentPermission, hasPermission } from "./permissions.js";
+import {
+  DocumentFilter,
+  describeUnresolved,
+  filterDocuments,
+  resolveDocumentName,
+} from "./documents.js";
+import { normalizeText } from "./fuzzy.js";
+import { responseCache } from "./cache.js";
+import { buildOutline, countOutlineEntries } from "./outline.js";
+import { getSearchIndex } from "./search-index.js";
+import { getVectorIndex } from "./vector-index.js";
+import { logger } from "./logger.js";
 
 /**
  * Calculate the size of a JSON response in bytes
@@ -34,10 +59,7 @@ export function truncateResponse(
     };
   }
 
-  // Log truncation warning to stderr
-  console.error(
-    `[WARN] Response truncated: ${originalSize} bytes exceeds limit of ${maxSize} bytes`
-  );
+  logger.warn("Response truncated", { originalSize, maxSize });
 
   // Smart truncation: preserve structure but reduce content
   const truncated = truncateObject(data, maxSize);
@@ -121,16 +143,64 @@ function truncateObject(obj: any, targetSize: number): any {
   return truncatedObj;
 }
 
+/**
+ * Look up a document by name and check that it grants the required access
+ *
+ * Every tool that touches a single document goes through here so the
+ * permission check can't be forgotten. Names are resolved with
+ * resolveDocumentName(), so aliases are accepted, and close matches too
+ * when only read access is needed.
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of the document
+ * @param required - Minimum permission the tool needs
+ * @returns The document, or an error response to return as-is
+ */
+function resolveDocument(
+  config: Config,
+  documentName: string,
+  required: DocumentPermission
+): { doc: DocumentConfig; error?: undefined } | { doc?: undefined; error: any } {
+  const resolution = resolveDocumentName(config.documents, documentName, required === "read");
+  const doc = resolution.doc;
+
+  if (!doc) {
+    return {
+      error: {
+        error: describeUnresolved(documentName, resolution),
+        ...(resolution.suggestions.length > 0 ? { didYouMean: resolution.suggestions } : {}),
+        availableDocuments: config.documents.map((d) => d.name),
+      },
+    };
+  }
+
+  if (!hasPermission(doc, required)) {
+    return {
+      error: {
+        documentName: doc.name,
+        error: `Document "${doc.name}" does not allow ${required} access`,
+        permissions: getDocumentPermission(doc),
+      },
+    };
+  }
+
+  return { doc };
+}
+
 /**
  * List all configured Craft documents
  *
  * @param config - Application configuration containing document definitions
- * @returns Array of document names and endpoints
+ * @returns Array of document names, aliases, groups, tags, endpoints and permissions
  */
 export async function listDocuments(config: Config) {
   const documents = config.documents.map((doc) => ({
     name: doc.name,
+    ...(doc.aliases?.length ? { aliases: doc.aliases } : {}),
+    ...(doc.group ? { group: doc.group } : {}),
+    ...(doc.tags?.length ? { tags: doc.tags } : {}),
     apiEndpoint: doc.apiEndpoint,
+    permissions: getDocumentPermission(doc),
   }));
 
   return {
@@ -139,24 +209,83 @@ export async function listDocuments(config: Config) {
   };
 }
 
+/**
+ * List the document groups and tags
+ *
+ * @param config - Application configuration
+ * @returns Each group and tag with its documents, and the documents without a group
+ */
+export async function listGroups(config: Config) {
+  const groups = new Map<string, { name: string; documents: string[] }>();
+  const tags = new Map<string, { name: string; documents: string[] }>();
+  const ungrouped: string[] = [];
+
+  // Spellings that differ only in case or spacing are one group or tag
+  const add = (entries: typeof groups, name: string, documentName: string) => {
+    const key = normalizeText(name);
+    const entry = entries.get(key) ?? { name, documents: [] };
+    entry.documents.push(documentName);
+    entries.set(key, entry);
+  };
+
+  for (const doc of config.documents) {
+    if (doc.group) {
+      add(groups, doc.group, doc.name);
+    } else {
+      ungrouped.push(doc.name);
+    }
+    for (const tag of doc.tags ?? []) {
+      add(tags, tag, doc.name);
+    }
+  }
+
+  return {
+    groups: [...groups.values()],
+    ungrouped,
+    tags: [...tags.values()],
+  };
+}
+
 /**
  * Search across all configured Craft documents
  *
  * @param config - Application configuration
  * @param query - Search query pattern
  * @param caseSensitive - Whether search should be case-sensitive
- * @returns Aggregated search results from all documents
+ * @param filter - Only search the documents with these names, tags or group
+ * @returns Aggregated search results from the selected documents
  */
 export async function searchAllNotes(
   config: Config,
   query: string,
-  caseSensitive?: boolean
+  caseSensitive?: boolean,
+  filter: DocumentFilter = {}
 ) {
-  const searchPromises = config.documents.map(async (doc) => {
-    const result = await searchBlocks(doc.apiEndpoint, {
-      pattern: query,
-      caseSensitive: caseSensitive ?? false,
-    });
+  for (const name of filter.documents ?? []) {
+    const resolved = resolveDocument(config, name, "read");
+    if (!resolved.doc) {
+      return resolved.error;
+    }
+  }
+
+  const documents = filterDocuments(config.documents, filter);
+  if (documents.length === 0) {
+    return {
+      error: "No documents match the filter",
+      filter,
+      hint: "Use list_groups to see the groups and tags",
+    };
+  }
+
+  const searchPromises = documents.map(async (doc) => {
+    const result = await searchBlocks(
+      doc.apiEndpoint,
+      {
+        pattern: query,
+        caseSensitive: caseSensitive ?? false,
+      },
+      { ttlSeconds: doc.cacheTtlSeconds }
+    );
 
     if (result.success && result.results) {
       return {
@@ -181,7 +310,7 @@ export async function searchAllNotes(
       return result.value;
     } else {
       return {
-        documentName: config.documents[index].name,
+        documentName: documents[index].name,
         error: result.reason?.message || "Promise rejected",
       };
     }
@@ -198,12 +327,130 @@ export async function searchAllNotes(
     query,
     caseSensitive: caseSensitive ?? false,
     totalResults,
-    documentsSearched: config.documents.length,
+    documentsSearched: documents.length,
     results: aggregated,
     errors: errors.length > 0 ? errors : undefined,
   };
 }
 
+/**
+ * Rank blocks across documents with the local BM25 search index
+ *
+ * The index is brought up to date first; only documents whose entry is
+ * older than `searchIndex.refreshIntervalSeconds` are fetched again.
+ *
+ * @param config - Application configuration
+ * @param query - Free-text query
+ * @param topK - Number of results to return
+ * @param documentNames - Only rank blocks from these documents
+ * @returns Best matching blocks with scores and parent paths
+ */
+export async function rankedSearch(
+  config: Config,
+  query: string,
+  topK?: number,
+  documentNames?: string[]
+) {
+  const names: string[] = [];
+  for (const name of documentNames ?? []) {
+    const resolved = resolveDocument(config, name, "read");
+    if (!resolved.doc) {
+      return resolved.error;
+    }
+    names.push(resolved.doc.name);
+  }
+
+  const settings = config.searchIndex ?? {};
+  const index = getSearchIndex(settings);
+  const refreshErrors = await index.refresh(
+    config,
+    (settings.refreshIntervalSeconds ?? 300) * 1000
+  );
+  // Only the documents in this configuration, which may be narrowed to a caller's
+  const results = index.search(
+    query,
+    topK ?? 10,
+    documentNames ? names : config.documents.map((doc) => doc.name)
+  );
+
+  return {
+    query,
+    resultCount: results.length,
+    results,
+    errors: refreshErrors.length > 0 ? refreshErrors : undefined,
+  };
+}
+
+/**
+ * Find blocks across documents that are close in meaning to a query
+ *
+ * Uses the local vector index, which is refreshed like the BM25 index
+ * before searching. A refresh taking longer than
+ * `semanticSearch.maxWaitSeconds` (e.g. the first one, which embeds every
+ * document) continues in the background; the result then says which
+ * documents are still being indexed.
+ *
+ * @param config - Application configuration
+ * @param query - Question or description of the content
+ * @param topK - Number of results to return
+ * @param documentNames - Only search these documents
+ * @param minScore - Minimum cosine similarity
+ * @returns Nearest passages with similarity scores and breadcrumb paths
+ */
+export async function semanticSearch(
+  config: Config,
+  query: string,
+  topK?: number,
+  documentNames?: string[],
+  minScore?: number
+) {
+  const names: string[] = [];
+  for (const name of documentNames ?? []) {
+    const resolved = resolveDocument(config, name, "read");
+    if (!resolved.doc) {
+      return resolved.error;
+    }
+    names.push(resolved.doc.name);
+  }
+
+  const settings = config.semanticSearch ?? {};
+  const index = getVectorIndex(settings);
+  const searched = documentNames ? names : config.documents.map((doc) => doc.name);
+  const refreshErrors = await index.refreshWithin(
+    config,
+    (settings.refreshIntervalSeconds ?? 300) * 1000,
+    (settings.maxWaitSeconds ?? 10) * 1000
+  );
+
+  if (!refreshErrors) {
+    const pending = index.getPendingDocuments().filter((name) => searched.includes(name));
+    const indexed = index.getIndexedDocuments();
+    // Embedding the query would wait for the model the refresh is still loading
+    const results = searched.some((name) => indexed.includes(name))
+      ? await index.search(query, topK ?? 10, minScore ?? 0, searched)
+      : [];
+
+    return {
+      query,
+      resultCount: results.length,
+      results,
+      indexing: true,
+      pendingDocuments: pending,
+      message:
+        "The semantic index is still being built; results may be missing or out of date for the pending documents. Try again in a minute.",
+    };
+  }
+
+  const results = await index.search(query, topK ?? 10, minScore ?? 0, searched);
+
+  return {
+    query,
+    resultCount: results.length,
+    results,
+    errors: refreshErrors.length > 0 ? refreshErrors : undefined,
+  };
+}
+
 /**
  * Search within a specific Craft document
  *
@@ -219,19 +466,22 @@ export async function searchDocument(
   query: string,
   caseSensitive?: boolean
 ) {
-  const doc = config.documents.find((d) => d.name === documentName);
+  const resolved = resolveDocument(config, documentName, "read");
 
-  if (!doc) {
-    return {
-      error: `Document "${documentName}" not found`,
-      availableDocuments: config.documents.map((d) => d.name),
-    };
+  if (!resolved.doc) {
+    return resolved.error;
   }
 
-  const result = await searchBlocks(doc.apiEndpoint, {
-    pattern: query,
-    caseSensitive: caseSensitive ?? false,
-  });
+  const doc = resolved.doc;
+
+  const result = await searchBlocks(
+    doc.apiEndpoint,
+    {
+      pattern: query,
+      caseSensitive: caseSensitive ?? false,
+    },
+    { ttlSeconds: doc.cacheTtlSeconds }
+  );
 
   if (result.success && result.results) {
     return {
@@ -265,19 +515,22 @@ export async function readDocument(
   documentName: string,
   maxDepth?: number
 ) {
-  const doc = config.documents.find((d) => d.name === documentName);
+  const resolved = resolveDocument(config, documentName, "read");
 
-  if (!doc) {
-    return {
-      error: `Document "${documentName}" not found`,
-      availableDocuments: config.documents.map((d) => d.name),
-    };
+  if (!resolved.doc) {
+    return resolved.error;
   }
 
-  const result = await fetchBlocks(doc.apiEndpoint, {
-    maxDepth: maxDepth,
-    fetchMetadata: true,
-  });
+  const doc = resolved.doc;
+
+  const result = await fetchBlocks(
+    doc.apiEndpoint,
+    {
+      maxDepth: maxDepth,
+      fetchMetadata: true,
+    },
+    { ttlSeconds: doc.cacheTtlSeconds }
+  );
 
   if (result.success && result.data) {
     return {
@@ -306,25 +559,214 @@ export async function readBlock(
   documentName: string,
   blockId: string
 ) {
-  const doc = config.documents.find((d) => d.name === documentName);
+  const resolved = resolveDocument(config, documentName, "read");
 
-  if (!doc) {
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  const result = await fetchBlocks(
+    doc.apiEndpoint,
+    {
+      id: blockId,
+      fetchMetadata: true,
+    },
+    { ttlSeconds: doc.cacheTtlSeconds }
+  );
+
+  if (result.success && result.data) {
     return {
-      error: `Document "${documentName}" not found`,
-      availableDocuments: config.documents.map((d) => d.name),
+      documentName: doc.name,
+      blockId,
+      data: result.data,
+    };
+  } else {
+    return {
+      documentName: doc.name,
+      blockId,
+      error: result.error || "Unknown error",
     };
   }
+}
 
-  const result = await fetchBlocks(doc.apiEndpoint, {
-    id: blockId,
-    fetchMetadata: true,
-  });
+/**
+ * Get the outline (pages and headings) of a Craft document
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of document to outline
+ * @returns Tree of page and heading blocks with IDs, levels and child-block counts
+ */
+export async function getDocumentOutline(config: Config, documentName: string) {
+  const resolved = resolveDocument(config, documentName, "read");
+
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  const result = await fetchBlocks(
+    doc.apiEndpoint,
+    {
+      fetchMetadata: true,
+    },
+    { ttlSeconds: doc.cacheTtlSeconds }
+  );
 
   if (result.success && result.data) {
+    const outline = buildOutline(result.data);
+    return {
+      documentName: doc.name,
+      entryCount: countOutlineEntries(outline),
+      outline,
+    };
+  } else {
+    return {
+      documentName: doc.name,
+      error: result.error || "Unknown error",
+    };
+  }
+}
+
+/**
+ * Drop cached responses for a Craft document so the next read is fresh
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of document to refresh
+ * @returns Number of cache entries dropped
+ */
+export async function refreshDocument(config: Config, documentName: string) {
+  const resolved = resolveDocument(config, documentName, "read");
+
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  return {
+    documentName: doc.name,
+    invalidatedEntries: responseCache.invalidateEndpoint(doc.apiEndpoint),
+  };
+}
+
+/**
+ * Append Markdown content to a Craft document
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of document to append to
+ * @param markdown - Markdown content for the new blocks
+ * @param parentBlockId - Optional page block to insert into (default: document root)
+ * @param position - Insert at the start or end of the page (default: end)
+ * @returns IDs of the created blocks
+ */
+export async function appendToDocument(
+  config: Config,
+  documentName: string,
+  markdown: string,
+  parentBlockId?: string,
+  position?: "start" | "end"
+) {
+  const resolved = resolveDocument(config, documentName, "append");
+
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  const result = await insertBlocks(doc.apiEndpoint, {
+    blocks: [{ type: "text", markdown }],
+    pageId: parentBlockId,
+    position,
+  });
+
+  if (result.success && result.blockIds) {
+    return {
+      documentName: doc.name,
+      parentBlockId,
+      blockIds: result.blockIds,
+    };
+  } else {
+    return {
+      documentName: doc.name,
+      error: result.error || "Unknown error",
+    };
+  }
+}
+
+/**
+ * Replace the content of a block in a Craft document
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of document containing the block
+ * @param blockId - ID of the block to update
+ * @param markdown - New Markdown content for the block
+ * @returns IDs of the updated blocks
+ */
+export async function updateBlock(
+  config: Config,
+  documentName: string,
+  blockId: string,
+  markdown: string
+) {
+  const resolved = resolveDocument(config, documentName, "write");
+
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  const result = await updateBlocks(doc.apiEndpoint, {
+    blocks: [{ id: blockId, markdown }],
+  });
+
+  if (result.success && result.blockIds) {
+    return {
+      documentName: doc.name,
+      blockIds: result.blockIds,
+    };
+  } else {
     return {
       documentName: doc.name,
       blockId,
-      data: result.data,
+      error: result.error || "Unknown error",
+    };
+  }
+}
+
+/**
+ * Delete a block from a Craft document
+ *
+ * @param config - Application configuration
+ * @param documentName - Name of document containing the block
+ * @param blockId - ID of the block to delete
+ * @returns IDs of the deleted blocks
+ */
+export async function deleteBlock(
+  config: Config,
+  documentName: string,
+  blockId: string
+) {
+  const resolved = resolveDocument(config, documentName, "write");
+
+  if (!resolved.doc) {
+    return resolved.error;
+  }
+
+  const doc = resolved.doc;
+
+  const result = await deleteBlocks(doc.apiEndpoint, {
+    blockIds: [blockId],
+  });
+
+  if (result.success && result.blockIds) {
+    return {
+      documentName: doc.name,
+      blockIds: result.blockIds,
     };
   } else {
     return {
@@ -333,4 +775,4 @@ export async function readBlock(
       error: result.error || "Unknown error",
     };
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,123 @@
 import { z } from "zod";
 
+/**
+ * Access level granted on a document. Each level includes the ones before it:
+ * - read: list, search and read blocks
+ * - append: also add new blocks
+ * - write: also update and delete existing blocks
+ */
+export type DocumentPermission = "read" | "append" | "write";
+
 /**
  * Configuration for a single Craft document
  */
 export interface DocumentConfig {
   name: string;
   apiEndpoint: string;
+  aliases?: string[]; // other names tools accept for the document
+  group?: string; // e.g. a team or area, see list_groups
+  tags?: string[]; // labels to narrow search_all_notes
+  permissions?: DocumentPermission; // default: "read"
+  cacheTtlSeconds?: number; // default: CACHE_TTL_SECONDS, 0 disables caching
+}
+
+/**
+ * Settings for the local full-text search index
+ */
+export interface SearchIndexConfig {
+  enabled?: boolean; // default: false
+  path?: string; // default: .craft-index/bm25.json, relative to the project root
+  refreshIntervalSeconds?: number; // default: 300
+}
+
+/**
+ * Settings for semantic search over a local vector index
+ */
+export interface SemanticSearchConfig {
+  enabled?: boolean; // default: false
+  provider?: string; // embedding provider name, default: "transformers"
+  model?: string; // default: Xenova/all-MiniLM-L6-v2
+  path?: string; // default: .craft-index/vectors.json, relative to the project root
+  refreshIntervalSeconds?: number; // default: 300
+  maxWaitSeconds?: number; // longest a search waits for indexing, default: 10
+}
+
+/**
+ * A named API key, optionally limited to some documents and tools
+ */
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  documents?: string[]; // default: all documents
+  tools?: string[]; // default: all tools
+}
+
+/**
+ * Settings for the built-in OAuth 2.1 authorization server (HTTP mode only)
+ */
+export interface OAuthConfig {
+  enabled?: boolean; // default: false
+  issuerUrl?: string; // default: OAUTH_ISSUER_URL or http://localhost:PORT
+  usersFile?: string; // default: oauth-users.json, relative to the project root
+  accessTokenTtlSeconds?: number; // default: 3600
+  refreshTokenTtlSeconds?: number; // default: 2592000 (30 days)
+}
+
+/**
+ * Settings for the audit log of tool calls
+ */
+export interface AuditConfig {
+  enabled?: boolean; // default: false
+  path?: string; // default: .craft-audit/audit.jsonl, relative to the project root
+  maxBytes?: number; // rotate once the file would exceed this, default: 10485760
+  maxFiles?: number; // rotated files kept, default: 5
+  redactArguments?: string[]; // argument values to replace, default: ["markdown"]
+}
+
+/**
+ * A user who may sign in to the built-in authorization server, as listed in
+ * the users file. Tokens issued to a user are limited like an API key.
+ */
+export interface OAuthUserConfig {
+  username: string;
+  passwordHash: string; // scrypt hash from `npm run hash-password`
+  documents?: string[]; // default: all documents
+  tools?: string[]; // default: all tools
+}
+
+/**
+ * An argument of a prompt, filled in by the user
+ */
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean; // default: false
+  default?: string; // used when an optional argument is left out
+}
+
+/**
+ * Craft content embedded in a prompt ahead of its text. `{{argument}}`
+ * placeholders are filled in before fetching.
+ *
+ * - `document` alone embeds the whole document as Markdown
+ * - `search` alone embeds matches across all documents
+ * - `search` with `document` embeds matches in that document
+ */
+export interface PromptContextDefinition {
+  document?: string;
+  search?: string;
+}
+
+/**
+ * A prompt as defined in prompts.json
+ */
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  context?: PromptContextDefinition[];
+  text: string; // instructions; `{{argument}}` and `{{#argument}}...{{/argument}}` are filled in
 }
 
 /**
@@ -13,6 +125,11 @@ export interface DocumentConfig {
  */
 export interface Config {
   documents: DocumentConfig[];
+  apiKeys?: ApiKeyConfig[];
+  oauth?: OAuthConfig;
+  audit?: AuditConfig;
+  searchIndex?: SearchIndexConfig;
+  semanticSearch?: SemanticSearchConfig;
 }
 
 /**
@@ -35,6 +152,13 @@ export interface BlockFetchParams {
   fetchMetadata?: boolean;
 }
 
+/**
+ * Caching options for read requests
+ */
+export interface CacheOptions {
+  ttlSeconds?: number;
+}
+
 /**
  * Parameters for searching blocks
  */
@@ -45,6 +169,39 @@ export interface SearchParams {
   afterBlockCount?: number;
 }
 
+/**
+ * Block content sent to the write endpoints
+ */
+export interface BlockInput {
+  id?: string;
+  type?: string;
+  markdown?: string;
+  [key: string]: any;
+}
+
+/**
+ * Parameters for inserting blocks
+ */
+export interface InsertBlocksParams {
+  blocks: BlockInput[];
+  pageId?: string;
+  position?: "start" | "end";
+}
+
+/**
+ * Parameters for updating blocks
+ */
+export interface UpdateBlocksParams {
+  blocks: (BlockInput & { id: string })[];
+}
+
+/**
+ * Parameters for deleting blocks
+ */
+export interface DeleteBlocksParams {
+  blockIds: string[];
+}
+
 /**
  * Response from blocks endpoint
  */
@@ -54,6 +211,15 @@ export interface BlocksResponse {
   error?: string;
 }
 
+/**
+ * Response from insert, update and delete endpoints
+ */
+export interface BlockMutationResponse {
+  success: boolean;
+  blockIds?: string[];
+  error?: string;
+}
+
 /**
  * Search result with context
  */
@@ -105,16 +271,40 @@ export interface ResponseMetadata {
   truncated: boolean;
   originalSize?: number;
   message?: string;
+  hasMore?: boolean; // a paginated response has further pages
 }
 
 // Zod Schemas for tool parameters
 
+/**
+ * Schema for list_documents tool parameters
+ */
+export const listDocumentsSchema = z.object({});
+
+/**
+ * Schema for list_groups tool parameters
+ */
+export const listGroupsSchema = z.object({});
+
+/**
+ * Output options shared by the read and search tools
+ */
+const outputOptions = {
+  output: z.enum(["json", "markdown", "text"]).optional().describe('Response format: "json" for raw Craft blocks (default), "markdown" or "text" for rendered content'),
+  includeBlockIds: z.boolean().optional().describe("Keep block IDs as {#id} anchors in markdown/text output, for follow-up read_block calls (default: false)"),
+};
+
 /**
  * Schema for search_all_notes tool parameters
  */
 export const searchAllNotesSchema = z.object({
   query: z.string().describe("Search query pattern"),
   caseSensitive: z.boolean().optional().describe("Whether search is case-sensitive (default: false)"),
+  documents: z.array(z.string()).optional().describe("Only search these documents (default: all)"),
+  tags: z.array(z.string()).optional().describe("Only search documents with at least one of these tags (see list_groups)"),
+  group: z.string().optional().describe("Only search documents in this group (see list_groups)"),
+  cursor: z.string().optional().describe("Cursor from the nextCursor field of a previous response, to fetch the next page"),
+  ...outputOptions,
 });
 
 /**
@@ -124,6 +314,8 @@ export const searchDocumentSchema = z.object({
   documentName: z.string().describe("Name of the document to search"),
   query: z.string().describe("Search query pattern"),
   caseSensitive: z.boolean().optional().describe("Whether search is case-sensitive (default: false)"),
+  cursor: z.string().optional().describe("Cursor from the nextCursor field of a previous response, to fetch the next page"),
+  ...outputOptions,
 });
 
 /**
@@ -131,7 +323,9 @@ export const searchDocumentSchema = z.object({
  */
 export const readDocumentSchema = z.object({
   documentName: z.string().describe("Name of the document to read"),
-  maxDepth: z.number().optional().describe("Maximum depth of block hierarchy to fetch"),
+  maxDepth: z.number().optional().describe("Maximum depth of block hierarchy to fetch (optional)"),
+  cursor: z.string().optional().describe("Cursor from the nextCursor field of a previous response, to fetch the next page"),
+  ...outputOptions,
 });
 
 /**
@@ -140,4 +334,66 @@ export const readDocumentSchema = z.object({
 export const readBlockSchema = z.object({
   documentName: z.string().describe("Name of the document containing the block"),
   blockId: z.string().describe("ID of the block to read"),
-});
\ No newline at end of file
+  cursor: z.string().optional().describe("Cursor from the nextCursor field of a previous response, to fetch the next page"),
+  ...outputOptions,
+});
+
+/**
+ * Schema for get_document_outline tool parameters
+ */
+export const getDocumentOutlineSchema = z.object({
+  documentName: z.string().describe("Name of the document to outline"),
+});
+
+/**
+ * Schema for ranked_search tool parameters
+ */
+export const rankedSearchSchema = z.object({
+  query: z.string().describe("Free-text search query"),
+  topK: z.number().int().min(1).max(50).optional().describe("Number of results to return (default: 10, max: 50)"),
+  documents: z.array(z.string()).optional().describe("Only rank blocks from these documents (default: all)"),
+});
+
+/**
+ * Schema for semantic_search tool parameters
+ */
+export const semanticSearchSchema = z.object({
+  query: z.string().describe("Question or description of the content to find"),
+  topK: z.number().int().min(1).max(50).optional().describe("Number of results to return (default: 10, max: 50)"),
+  documents: z.array(z.string()).optional().describe("Only search these documents (default: all)"),
+  minScore: z.number().min(-1).max(1).optional().describe("Drop results with a lower cosine similarity (default: 0)"),
+});
+
+/**
+ * Schema for refresh_document tool parameters
+ */
+export const refreshDocumentSchema = z.object({
+  documentName: z.string().describe("Name of the document to refresh"),
+});
+
+/**
+ * Schema for append_to_document tool parameters
+ */
+export const appendToDocumentSchema = z.object({
+  documentName: z.string().describe("Name of the document to append to"),
+  markdown: z.string().describe("Markdown content to add as new blocks"),
+  parentBlockId: z.string().optional().describe("ID of the page block to add the content to (default: document root)"),
+  position: z.enum(["start", "end"]).optional().describe("Insert at the start or end of the page (default: end)"),
+});
+
+/**
+ * Schema for update_block tool parameters
+ */
+export const updateBlockSchema = z.object({
+  documentName: z.string().describe("Name of the document containing the block"),
+  blockId: z.string().describe("ID of the block to update"),
+  markdown: z.string().describe("New Markdown content for the block"),
+});
+
+/**
+ * Schema for delete_block tool parameters
+ */
+export const deleteBlockSchema = z.object({
+  documentName: z.string().describe("Name of the document containing the block"),
+  blockId: z.string().describe("ID of the block to delete"),
+});
@@ -0,0 +1,390 @@
+import { createHash } from "crypto";
+import type { Block, Config, DocumentConfig, SemanticSearchConfig } from "./types.js";
+import { fetchBlocks } from "./craft-api.js";
+import { isPageBlock } from "./render.js";
+import { EmbeddingProvider, getEmbeddingProvider } from "./embeddings.js";
+import {
+  collectTextBlocks,
+  hashContent,
+  readIndexFile,
+  resolveIndexPath,
+  writeIndexFile,
+} from "./search-index.js";
+import { logger } from "./logger.js";
+
+/**
+ * A passage of consecutive blocks embedded as one vector
+ */
+interface Chunk {
+  blockIds: string[];
+  path: string[]; // titles of enclosing pages and headings
+  text: string;
+  hash: string; // hash of the embedded text, to reuse vectors
+  vector: number[]; // unit length
+}
+
+/**
+ * Vectors of a single document
+ */
+interface DocumentVectors {
+  contentHash: string;
+  indexedAt: number;
+  chunks: Chunk[];
+}
+
+/**
+ * Index file layout
+ */
+interface VectorIndexFile {
+  version: 1;
+  providerId: string;
+  documents: Record<string, DocumentVectors>;
+}
+
+/**
+ * A semantic search hit
+ */
+export interface SemanticResult {
+  documentName: string;
+  blockId: string; // first block of the passage
+  blockIds: string[];
+  score: number; // cosine similarity
+  path: string[];
+  text: string;
+}
+
+const INDEX_VERSION = 1;
+
+/**
+ * Maximum characters in a chunk before a new one is started
+ */
+const CHUNK_LENGTH = 800;
+
+/**
+ * Length of a heading title in a breadcrumb path, as in search-index.ts
+ */
+const PATH_ENTRY_LENGTH = 80;
+
+/**
+ * Scale a vector to unit length, so a dot product is the cosine similarity
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  // Five decimals keep the index file small without hurting the ranking
+  return vector.map((x) => Math.round((x / norm) * 1e5) / 1e5);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Group a block tree into passages of consecutive blocks
+ *
+ * A chunk never spans two sections: pages and headings start a new chunk,
+ * as does a change of breadcrumb path or reaching CHUNK_LENGTH.
+ *
+ * @param data - Block tree returned by fetchBlocks()
+ * @returns Chunks without vectors
+ */
+export function chunkBlocks(data: Block | Block[]): Omit<Chunk, "hash" | "vector">[] {
+  const chunks: Omit<Chunk, "hash" | "vector">[] = [];
+  let current: Omit<Chunk, "hash" | "vector"> | undefined;
+  let currentSection = "";
+
+  for (const { block, text, path, headingLevel } of collectTextBlocks(data)) {
+    const startsSection = Boolean(headingLevel) || isPageBlock(block);
+    const section = path.join("\0");
+
+    if (
+      !current ||
+      startsSection ||
+      section !== currentSection ||
+      current.text.length + text.length > CHUNK_LENGTH
+    ) {
+      current = { blockIds: [], path, text: "" };
+      chunks.push(current);
+      // The blocks of a section have its heading in their path
+      currentSection = startsSection
+        ? [...path, text.slice(0, PATH_ENTRY_LENGTH)].join("\0")
+        : section;
+    }
+
+    current.blockIds.push(block.id);
+    current.text = current.text ? `${current.text}\n${text}` : text;
+  }
+
+  return chunks;
+}
+
+/**
+ * Text sent to the embedding model for a chunk; the breadcrumb gives short
+ * passages their context
+ */
+function embeddingInput(chunk: Omit<Chunk, "hash" | "vector">): string {
+  return [...chunk.path, chunk.text].join("\n").slice(0, CHUNK_LENGTH * 2);
+}
+
+/**
+ * Local vector index over all configured documents
+ *
+ * Refreshed like the BM25 index in search-index.ts: documents are re-fetched
+ * once their entry is older than the refresh interval, and when their
+ * content changed only chunks with new text are embedded again.
+ */
+export class VectorIndex {
+  private file?: VectorIndexFile;
+  private refreshing?: Promise<unknown>;
+  private pending: string[] = []; // documents the running refresh hasn't reached yet
+
+  constructor(
+    private readonly path: string,
+    private readonly provider: EmbeddingProvider
+  ) {}
+
+  /**
+   * Bring the index up to date with the configured documents
+   *
+   * Concurrent refreshes run one after another, so a document is only
+   * fetched once even if several calls find it stale.
+   *
+   * @param config - Application configuration
+   * @param refreshIntervalMs - Age after which a document is re-fetched
+   * @returns Errors for documents that could not be indexed
+   */
+  refresh(config: Config, refreshIntervalMs: number): Promise<string[]> {
+    const refresh = (this.refreshing ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.doRefresh(config, refreshIntervalMs));
+    this.refreshing = refresh;
+    return refresh;
+  }
+
+  /**
+   * Refresh the index, waiting at most `maxWaitMs` for it
+   *
+   * Embedding every document on the first search can take minutes, so a
+   * refresh that takes longer carries on in the background and the caller
+   * searches what is indexed so far.
+   *
+   * @param config - Application configuration
+   * @param refreshIntervalMs - Age after which a document is re-fetched
+   * @param maxWaitMs - Longest time to wait for the refresh
+   * @returns Errors for documents that could not be indexed, or undefined
+   *   if the refresh is still running
+   */
+  async refreshWithin(
+    config: Config,
+    refreshIntervalMs: number,
+    maxWaitMs: number
+  ): Promise<string[] | undefined> {
+    const refresh = this.refresh(config, refreshIntervalMs);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), maxWaitMs);
+    });
+
+    const errors = await Promise.race([refresh, timeout]);
+    clearTimeout(timer);
+
+    if (errors === undefined) {
+      refresh.catch((error) => logger.error("Semantic index refresh failed", { error }));
+    }
+    return errors;
+  }
+
+  /**
+   * Names of the documents a running refresh has yet to index
+   */
+  getPendingDocuments(): string[] {
+    return [...this.pending];
+  }
+
+  /**
+   * Names of the documents with vectors, possibly from before a running refresh
+   */
+  getIndexedDocuments(): string[] {
+    return Object.keys(this.file?.documents ?? {});
+  }
+
+  private async doRefresh(config: Config, refreshIntervalMs: number): Promise<string[]> {
+    const file = await this.load();
+    const now = Date.now();
+    const errors: string[] = [];
+    let changed = false;
+
+    const stale = config.documents.filter((doc) => {
+      const entry = file.documents[doc.name];
+      return !entry || now - entry.indexedAt >= refreshIntervalMs;
+    });
+    this.pending = stale.map((doc) => doc.name);
+
+    // One document at a time: embedding is CPU-bound anyway
+    for (const doc of stale) {
+      try {
+        changed = (await this.refreshDocument(file, doc, now)) || changed;
+      } catch (error) {
+        errors.push(
+          `${doc.name}: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+      this.pending = this.pending.filter((name) => name !== doc.name);
+    }
+
+    if (changed) {
+      await writeIndexFile(this.path, file);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Re-fetch a document and embed its new passages if its content changed
+   *
+   * @returns True if the index entry was replaced
+   */
+  private async refreshDocument(
+    file: VectorIndexFile,
+    doc: DocumentConfig,
+    now: number
+  ): Promise<boolean> {
+    const result = await fetchBlocks(
+      doc.apiEndpoint,
+      { fetchMetadata: true },
+      { ttlSeconds: doc.cacheTtlSeconds }
+    );
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || "Unknown error");
+    }
+
+    const contentHash = hashContent(result.data);
+    const existing = file.documents[doc.name];
+
+    if (existing?.contentHash === contentHash) {
+      existing.indexedAt = now;
+      return false;
+    }
+
+    // Reuse vectors of passages whose text didn't change
+    const previous = new Map(
+      (existing?.chunks ?? []).map((chunk) => [chunk.hash, chunk.vector])
+    );
+    const chunks = chunkBlocks(result.data).map((chunk) => {
+      const input = embeddingInput(chunk);
+      const hash = createHash("sha256").update(input).digest("hex").slice(0, 16);
+      return { ...chunk, input, hash, vector: previous.get(hash) };
+    });
+
+    const missing = chunks.filter((chunk) => !chunk.vector);
+    if (missing.length > 0) {
+      const vectors = await this.provider.embed(missing.map((chunk) => chunk.input));
+      missing.forEach((chunk, i) => {
+        chunk.vector = normalize(vectors[i]);
+      });
+    }
+
+    file.documents[doc.name] = {
+      contentHash,
+      indexedAt: now,
+      chunks: chunks.map(({ input, ...chunk }) => chunk as Chunk),
+    };
+    return true;
+  }
+
+  /**
+   * Find the passages closest in meaning to a query
+   *
+   * @param query - Question or description of the content
+   * @param topK - Maximum number of results
+   * @param minScore - Minimum cosine similarity
+   * @param documentNames - Restrict results to these documents
+   * @returns Nearest passages, most similar first
+   */
+  async search(
+    query: string,
+    topK: number,
+    minScore: number,
+    documentNames?: string[]
+  ): Promise<SemanticResult[]> {
+    const file = await this.load();
+    const [queryVector] = await this.provider.embed([query]);
+    const target = normalize(queryVector);
+    const results: SemanticResult[] = [];
+
+    for (const [documentName, entry] of Object.entries(file.documents)) {
+      if (documentNames && !documentNames.includes(documentName)) {
+        continue;
+      }
+
+      for (const chunk of entry.chunks) {
+        const score = dot(target, chunk.vector);
+        if (score >= minScore) {
+          results.push({
+            documentName,
+            blockId: chunk.blockIds[0],
+            blockIds: chunk.blockIds,
+            score: Math.round(score * 1000) / 1000,
+            path: chunk.path,
+            text: chunk.text,
+          });
+        }
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  private async load(): Promise<VectorIndexFile> {
+    if (!this.file) {
+      const file = await readIndexFile(this.path);
+
+      // Vectors from another model can't be compared, so start over
+      this.file =
+        file?.version === INDEX_VERSION &&
+        file.providerId === this.provider.id &&
+        file.documents
+          ? file
+          : { version: INDEX_VERSION, providerId: this.provider.id, documents: {} };
+    }
+    return this.file!;
+  }
+}
+
+/**
+ * Vector indexes by file path and provider
+ */
+const indexes = new Map<string, VectorIndex>();
+
+/**
+ * Check whether semantic search is enabled
+ *
+ * @param config - Application configuration
+ * @returns True if `semanticSearch.enabled` is set
+ */
+export function isSemanticSearchEnabled(config: Config): boolean {
+  return config.semanticSearch?.enabled === true;
+}
+
+/**
+ * Get the vector index for a configuration
+ *
+ * @param settings - `semanticSearch` section of config.json
+ * @returns Shared index instance for the configured path and provider
+ */
+export function getVectorIndex(settings: SemanticSearchConfig = {}): VectorIndex {
+  const path = resolveIndexPath(settings.path ?? ".craft-index/vectors.json");
+  const provider = getEmbeddingProvider(settings);
+  const key = `${path}\0${provider.id}`;
+
+  let index = indexes.get(key);
+  if (!index) {
+    index = new VectorIndex(path, provider);
+    indexes.set(key, index);
+  }
+  return index;
+}